@@ -0,0 +1,215 @@
+/**
+ * Client-side type declarations for apps built with react-client.
+ *
+ * Reference from an app with:
+ *   /// <reference types="react-client/client" />
+ */
+
+interface ImportMetaEnv {
+  /** The `--mode` the app is running in (`development`, `production`, or custom) */
+  readonly MODE: string;
+  /** `true` under `react-client dev` */
+  readonly DEV: boolean;
+  /** `true` in production builds */
+  readonly PROD: boolean;
+  /** Public base path the app is served from */
+  readonly BASE_URL: string;
+  /** Variables prefixed with RC_, PUBLIC_ or VITE_ from the loaded .env files */
+  readonly [key: string]: string | boolean | undefined;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+  /** HMR API; only defined under `react-client dev` */
+  readonly hot?: ImportMetaHot;
+}
+
+/**
+ * A module's exports, as passed to `import.meta.hot.accept` callbacks. Pass the
+ * module's own type to use them: `accept<typeof import('./render')>('./render', cb)`
+ */
+type HotModuleNamespace = Record<string, unknown>;
+
+/**
+ * `import.meta.hot.data`, kept across updates of a module. Augment it to type
+ * your own entries: interface ImportMetaHotData { renders: number }
+ */
+interface ImportMetaHotData {
+  [key: string]: unknown;
+}
+
+interface HotUpdatePayload {
+  type: 'update';
+  path?: string;
+  updates?: { path: string; acceptedPath: string; timestamp: number }[];
+}
+
+/**
+ * Payloads of `import.meta.hot.on` events. Augment it to type your own events:
+ *   interface HotCustomEventMap { 'my-plugin:event': { count: number } }
+ */
+interface HotCustomEventMap {
+  'react-client:beforeUpdate': HotUpdatePayload;
+  'react-client:afterUpdate': HotUpdatePayload;
+  'react-client:beforeFullReload': { type?: 'reload'; path?: string };
+  'react-client:error': {
+    type: 'error';
+    path?: string;
+    message?: string;
+    stack?: string;
+    /** Compile errors: where it failed (1-based line/column), a code frame and the plugin */
+    err?: {
+      message: string;
+      stack?: string;
+      plugin?: string;
+      file?: string;
+      line?: number;
+      column?: number;
+      frame?: string;
+    };
+  };
+  'react-client:prune': { type: 'prune'; paths: string[] };
+  'react-client:invalidate': { path: string; message?: string };
+  'react-client:disconnected': { code: number };
+}
+
+type HotEventPayload<T extends string> = T extends keyof HotCustomEventMap
+  ? HotCustomEventMap[T]
+  : unknown;
+
+interface ImportMetaHot {
+  /** Persists across updates of this module; fill it in `dispose`, read it after */
+  readonly data: ImportMetaHotData;
+
+  /** Accept updates to this module without passing on its new exports */
+  accept(): void;
+  /** Accept updates to this module; `cb` gets its new exports */
+  accept<M = HotModuleNamespace>(cb: (mod: M | undefined) => void): void;
+  /** Accept updates to an imported module; `cb` gets its new exports */
+  accept<M = HotModuleNamespace>(dep: string, cb: (mod: M | undefined) => void): void;
+  /** Accept updates to several imported modules; only the updated ones are defined */
+  accept<M extends unknown[] = HotModuleNamespace[]>(
+    deps: readonly string[],
+    cb: (mods: { [K in keyof M]: M[K] | undefined }) => void,
+  ): void;
+
+  /** Clean up side effects before this module is replaced */
+  dispose(cb: (data: ImportMetaHotData) => void): void;
+  /** Called when this module is no longer imported by anything */
+  prune(cb: (data: ImportMetaHotData) => void): void;
+  /** Updates reaching this module always reload the page */
+  decline(): void;
+  /** Give up on an update in progress: it is passed on to this module's importers */
+  invalidate(message?: string): void;
+
+  on<T extends string>(event: T, cb: (payload: HotEventPayload<T>) => void): void;
+  off<T extends string>(event: T, cb: (payload: HotEventPayload<T>) => void): void;
+  /** Send a custom event to the dev server (namespaced, e.g. `my-plugin:event`) */
+  send<T extends string>(event: T, data?: HotEventPayload<T>): void;
+}
+
+// CSS Modules: the default export maps class names to their scoped names
+declare module '*.module.css' {
+  const classes: { readonly [key: string]: string };
+  export default classes;
+}
+declare module '*.module.scss' {
+  const classes: { readonly [key: string]: string };
+  export default classes;
+}
+declare module '*.module.sass' {
+  const classes: { readonly [key: string]: string };
+  export default classes;
+}
+declare module '*.module.less' {
+  const classes: { readonly [key: string]: string };
+  export default classes;
+}
+declare module '*.module.styl' {
+  const classes: { readonly [key: string]: string };
+  export default classes;
+}
+
+// Asset imports: the URL the file is served from (a data URI when inlined by `build`)
+declare module '*.png' {
+  const src: string;
+  export default src;
+}
+declare module '*.jpg' {
+  const src: string;
+  export default src;
+}
+declare module '*.jpeg' {
+  const src: string;
+  export default src;
+}
+declare module '*.gif' {
+  const src: string;
+  export default src;
+}
+declare module '*.svg' {
+  const src: string;
+  export default src;
+}
+declare module '*.ico' {
+  const src: string;
+  export default src;
+}
+declare module '*.webp' {
+  const src: string;
+  export default src;
+}
+declare module '*.avif' {
+  const src: string;
+  export default src;
+}
+declare module '*.mp4' {
+  const src: string;
+  export default src;
+}
+declare module '*.webm' {
+  const src: string;
+  export default src;
+}
+declare module '*.mp3' {
+  const src: string;
+  export default src;
+}
+declare module '*.wav' {
+  const src: string;
+  export default src;
+}
+declare module '*.woff' {
+  const src: string;
+  export default src;
+}
+declare module '*.woff2' {
+  const src: string;
+  export default src;
+}
+declare module '*.ttf' {
+  const src: string;
+  export default src;
+}
+declare module '*.wasm' {
+  const src: string;
+  export default src;
+}
+declare module '*.txt' {
+  const src: string;
+  export default src;
+}
+
+// Import suffixes
+declare module '*?url' {
+  const src: string;
+  export default src;
+}
+declare module '*?raw' {
+  const content: string;
+  export default content;
+}
+declare module '*?inline' {
+  const dataUri: string;
+  export default dataUri;
+}
@@ -11,5 +11,9 @@ module.exports = {
   transform: {
     '^.+\\.ts$': ['ts-jest', { useESM: true }]
   },
+  // sources import each other as `./x.js` (ESM output); resolve those to the .ts files
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  },
   moduleFileExtensions: ['ts', 'js', 'json', 'node']
 };
@@ -3,16 +3,28 @@ import path from 'path';
 import fs from 'fs-extra';
 import chalk from 'chalk';
 import { loadReactClientConfig } from '../../utils/loadConfig.js';
+import { createCssPlugin, cssModulesEsbuildPlugin } from '../../utils/cssPlugin.js';
+import { toEsbuildPlugin } from '../../utils/esbuildPlugin.js';
+import { envDefines, loadEnv } from '../../utils/env.js';
+import { aliasEsbuildPlugin, loadAliases } from '../../utils/alias.js';
+import { assetsEsbuildPlugin, createAssetMatcher } from '../../utils/assets.js';
+import type { BuildOptions } from '../types.js';
+import type { ReactClientPlugin } from '../../types/plugin';
 
-export default async function build() {
+export default async function build(opts: BuildOptions = {}) {
   const root = process.cwd();
-  const config = await loadReactClientConfig(root);
+  const mode = opts.mode || 'production';
+  const config = await loadReactClientConfig(root, { command: 'build', mode });
   const appRoot = path.resolve(root, config.root || '.');
   const outDir = path.join(appRoot, config.build?.outDir || 'dist');
 
   console.log(chalk.cyan(`\n🏗️ Building project...`));
   console.log(chalk.gray(`Root: ${appRoot}`));
-  console.log(chalk.gray(`Output: ${outDir}\n`));
+  console.log(chalk.gray(`Output: ${outDir}`));
+  console.log(chalk.gray(`Mode: ${mode}\n`));
+
+  const env = await loadEnv(mode, appRoot);
+  const aliases = await loadAliases(appRoot, config.resolve?.alias);
 
   // Detect entry (main.tsx / main.jsx)
   const paths = [
@@ -38,6 +50,13 @@ export default async function build() {
     await fs.copy(publicDir, outDir);
   }
 
+  // Same plugin chain as dev, minus the HMR-only parts
+  const userPlugins = Array.isArray(config.plugins) ? config.plugins : [];
+  const plugins: ReactClientPlugin[] = [
+    createCssPlugin(appRoot, { hmr: false, mode, css: config.css }),
+    ...userPlugins,
+  ];
+
   try {
     await esbuild.build({
       entryPoints: [entry],
@@ -45,10 +64,25 @@ export default async function build() {
       minify: true,
       sourcemap: true,
       outdir: outDir,
-      define: { 'process.env.NODE_ENV': '"production"' },
+      define: envDefines(env, { mode, dev: false }),
       loader: { '.ts': 'ts', '.tsx': 'tsx', '.js': 'jsx', '.jsx': 'jsx' },
       jsx: 'automatic',
       entryNames: '[name]',
+      // imported assets: content-hashed files under assets/, referenced from the site root
+      assetNames: 'assets/[name]-[hash]',
+      publicPath: '/',
+      // assets and `?raw`/`?url`/`?inline` imports first, then CSS Modules: both load as
+      // JS, which the generic transforms cannot do (CSS Modules run the user plugins on
+      // their scoped CSS themselves)
+      plugins: [
+        assetsEsbuildPlugin(
+          createAssetMatcher(config.assetsInclude),
+          config.build?.assetsInlineLimit,
+        ),
+        cssModulesEsbuildPlugin(appRoot, mode, config.css, userPlugins),
+        toEsbuildPlugin(plugins, appRoot),
+        aliasEsbuildPlugin(aliases),
+      ],
     });
 
     // Post-process index.html to point to the bundled JS/CSS
@@ -4,7 +4,7 @@
  * - prebundles deps into .react-client/deps
  * - serves /@modules/<dep>
  * - serves /src/* with esbuild transform & inline sourcemap
- * - /@source-map returns a snippet for overlay mapping
+ * - /@source-map maps overlay stack frames to original sources through their source maps
  * - HMR broadcast via BroadcastManager (ws)
  *
  * Keep this file linted & typed. Avoids manual react-dom/client hacks.
@@ -14,7 +14,6 @@ import esbuild from 'esbuild';
 import connect from 'connect';
 import type { NextHandleFunction } from 'connect';
 
-import http from 'http';
 import chokidar from 'chokidar';
 import detectPort from 'detect-port';
 import path from 'path';
@@ -22,29 +21,135 @@ import fs from 'fs-extra';
 import open from 'open';
 import chalk from 'chalk';
 import { execSync } from 'child_process';
-import { BroadcastManager } from '../../server/broadcastManager.js';
-import type { ReactClientPlugin, ReactClientUserConfig } from '../../types/plugin';
+import crypto from 'crypto';
+import http from 'http';
+import {
+  BroadcastManager,
+  isSameOrigin,
+  type HMRMessage,
+  type HMRUpdate,
+} from '../../server/broadcastManager.js';
+import { isInside, isServable } from '../../server/fsAccess.js';
+import { ModuleGraph, type ModuleNode } from '../../server/moduleGraph.js';
+import { createHmrClientRuntime } from '../../server/hmrClient.js';
+import { createErrorPayload } from '../../server/errorPayload.js';
+import { applyEdits, extractSourceMap, originalPositionFor } from '../../utils/sourceMap.js';
+import {
+  createDepsMetadata,
+  isDepsCacheValid,
+  readDepsMetadata,
+  writeDepsMetadata,
+} from '../../server/depsCache.js';
+import { createServer, resolveHttpsOptions } from '../../server/https.js';
+import { getServerUrls, printServerUrls, resolveHost } from '../../server/network.js';
+import {
+  createProxyMiddleware,
+  createProxyRules,
+  findProxyRule,
+  proxyUpgrade,
+} from '../../server/proxy.js';
+import type { DevServerContext, ReactClientPlugin } from '../../types/plugin';
 import { createRequire } from 'module';
 
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 
-import { loadReactClientConfig } from '../../utils/loadConfig.js';
+import { ConfigError, resolveReactClientConfig } from '../../utils/loadConfig.js';
+import { createCssPlugin } from '../../utils/cssPlugin.js';
+import { isStyleFile } from '../../utils/cssPreprocessors.js';
+import { assetQuery, assetQueryModule, createAssetMatcher, mimeType } from '../../utils/assets.js';
+import { dependencyProxyCode, detectExports } from '../../utils/cjsExports.js';
+import { envDefines, envFiles, loadEnv } from '../../utils/env.js';
+import { loadAliases, resolveAlias } from '../../utils/alias.js';
+import {
+  interopCjsImports,
+  isBareImport,
+  rewriteImports,
+  scanExports,
+  scanFileImports,
+  scanHotAccepts,
+} from '../../utils/moduleLexer.js';
+import type { DevOptions } from '../types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const require = createRequire(import.meta.url);
 
-type HMRMessage = {
-  type: 'update' | 'error' | 'reload';
-  path?: string;
-  message?: string;
-  stack?: string;
-};
 function jsContentType() {
   return 'application/javascript; charset=utf-8';
 }
+
+function createEtag(body: string): string {
+  return `"${crypto.createHash('sha1').update(body).digest('hex').slice(0, 16)}"`;
+}
+
+/**
+ * Send JS with an ETag, answering `304 Not Modified` when the browser already has it.
+ * Responses without their own Cache-Control must be revalidated on every use.
+ */
+function sendJs(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  body: string,
+  etag = createEtag(body),
+): void {
+  res.setHeader('Content-Type', jsContentType());
+  res.setHeader('ETag', etag);
+  if (!res.hasHeader('Cache-Control')) res.setHeader('Cache-Control', 'no-cache');
+  if (req.headers['if-none-match'] === etag) {
+    res.statusCode = 304;
+    res.end();
+    return;
+  }
+  res.end(body);
+}
+
+/** A transformed /src module, reusable while none of the inputs below change */
+interface TransformCacheEntry {
+  mtimeMs: number;
+  /** Module's HMR timestamp: its stamped import URLs change with it */
+  hmrTimestamp: number;
+  /** Prebundle version baked into its /@modules/ URLs */
+  browserHash: string;
+  code: string;
+  etag: string;
+}
+/**
+ * Resolve an app source path the way the browser import would: exact file first,
+ * then the supported extensions.
+ */
+async function resolveSourceFile(base: string): Promise<string | null> {
+  for (const ext of ['', '.tsx', '.ts', '.jsx', '.js', '.css', '.json']) {
+    try {
+      const stat = await fs.stat(base + ext);
+      if (stat.isFile()) return base + ext;
+    } catch {
+      // Continue
+    }
+  }
+  return null;
+}
+
+/**
+ * React Refresh registration for a .jsx/.tsx module whose exports are all
+ * components, making it a self-accepting HMR boundary. Returns null otherwise.
+ */
+async function refreshBoundaryFooter(code: string, modulePath: string): Promise<string | null> {
+  const exports = await scanExports(code);
+  if (!exports.length || !exports.every((e) => e.local && /^[A-Z]/.test(e.local))) return null;
+
+  const register = exports
+    .map(
+      (e) =>
+        `if (typeof ${e.local} === "function") window.__REFRESH_RUNTIME__?.register(${
+          e.local
+        }, ${JSON.stringify(`${modulePath} ${e.name}`)});`,
+    )
+    .join('\n');
+  return `\n${register}\nimport.meta.hot?.accept();\n`;
+}
+
 /**
  * Resolve any bare import id robustly:
  * 1. try require.resolve(id)
@@ -172,36 +277,96 @@ async function resolveModuleEntry(id: string, root: string): Promise<string> {
 function normalizeCacheKey(id: string) {
   return id.replace(/[\\/]/g, '_');
 }
-export default async function dev(): Promise<void> {
-  const root = process.cwd();
-  const userConfig = (await loadReactClientConfig(root)) as ReactClientUserConfig;
-  const appRoot = path.resolve(root, userConfig.root || '.');
-  const defaultPort = Number(process.env.PORT) || userConfig.server?.port || 2202;
+/** A running dev server instance; replaced wholesale on restart */
+interface DevServerSession {
+  port: number;
+  /** Config file, its local imports and the .env cascade — a change restarts the server */
+  restartFiles: string[];
+  close(): Promise<void>;
+}
 
-  // Load .env variables
-  const envVars: Record<string, string> = {
-    'process.env.NODE_ENV': '"development"',
-  };
-  const envPath = path.join(appRoot, '.env');
-  if (await fs.pathExists(envPath)) {
-    const envContent = await fs.readFile(envPath, 'utf8');
-    envContent.split('\n').forEach((line) => {
-      const trimmed = line.trim();
-      if (!trimmed || trimmed.startsWith('#')) return;
-      const [key, ...rest] = trimmed.split('=');
-      const val = rest
-        .join('=')
-        .trim()
-        .replace(/^['"]|['"]$/g, '');
-      if (key && (key.startsWith('RC_') || key.startsWith('PUBLIC_') || key.startsWith('VITE_'))) {
-        envVars[`process.env.${key}`] = JSON.stringify(val);
+/**
+ * Start the dev server and keep it running, restarting it in place (same port)
+ * whenever react-client.config, a file it imports, or a .env file changes.
+ */
+export default async function dev(opts: DevOptions = {}): Promise<void> {
+  let session = await startDevServer(opts);
+  let restartFiles = session.restartFiles;
+  let restarting = false;
+  let pending: NodeJS.Timeout | undefined;
+
+  const restart = async (file: string) => {
+    restarting = true;
+    console.log(
+      chalk.yellow(`\n🔁 ${path.relative(process.cwd(), file)} changed — restarting dev server...`),
+    );
+    await configWatcher.close();
+    try {
+      await session.close();
+      session = await startDevServer(opts, session.port);
+      restartFiles = session.restartFiles;
+    } catch (err) {
+      console.error(chalk.red(`❌ Restart failed: ${(err as Error).message}`));
+      if (err instanceof ConfigError) {
+        for (const detail of err.details) console.error(`  ${detail}`);
       }
+      console.log(chalk.gray('Waiting for changes to retry...'));
+    } finally {
+      configWatcher = watchRestartFiles();
+      restarting = false;
+    }
+  };
+
+  function watchRestartFiles() {
+    return chokidar.watch(restartFiles, { ignoreInitial: true }).on('all', (event, file) => {
+      if (restarting || !['add', 'change', 'unlink'].includes(event)) return;
+      // editors often emit several events per save
+      clearTimeout(pending);
+      pending = setTimeout(() => restart(file), 100);
     });
   }
+  let configWatcher = watchRestartFiles();
+
+  // graceful shutdown
+  const shutdown = async () => {
+    console.log(chalk.red('\n🛑 Shutting down dev server...'));
+    try {
+      await configWatcher.close();
+      await session.close();
+    } catch (err) {
+      console.error(chalk.red('⚠️ Error during shutdown:'), (err as Error).message);
+    } finally {
+      process.exit(0);
+    }
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+async function startDevServer(opts: DevOptions, restartPort?: number): Promise<DevServerSession> {
+  const root = process.cwd();
+  const mode = opts.mode || 'development';
+  const { config: userConfig, dependencies: configDeps } = await resolveReactClientConfig(root, {
+    command: 'dev',
+    mode,
+  });
+  const appRoot = path.resolve(root, userConfig.root || '.');
+  const defaultPort = restartPort ?? (Number(process.env.PORT) || userConfig.server?.port || 2202);
+
+  // Load .env, .env.local, .env.[mode], .env.[mode].local
+  const env = await loadEnv(mode, appRoot);
+  const restartFiles = [...configDeps, ...envFiles(mode).map((file) => path.join(appRoot, file))];
+  const envVars = envDefines(env, { mode, dev: true });
+  const aliases = await loadAliases(appRoot, userConfig.resolve?.alias);
+  const isAsset = createAssetMatcher(userConfig.assetsInclude);
 
   // cache dir for prebundled deps
   const cacheDir = path.join(appRoot, '.react-client', 'deps');
   await fs.ensureDir(cacheDir);
+  // `?v=` for /@modules/ URLs; changes whenever the prebundle is rebuilt
+  let browserHash = '';
+  const depUrl = (id: string) => `/@modules/${id}${browserHash ? `?v=${browserHash}` : ''}`;
 
   // Detect entry (main.tsx / main.jsx)
   const paths = [
@@ -227,6 +392,7 @@ export default async function dev(): Promise<void> {
   const indexHtml = path.join(publicDir, 'index.html');
 
   // Select port
+  const host = resolveHost(userConfig.server?.host);
   const availablePort = await detectPort(defaultPort);
   const port = availablePort;
   if (availablePort !== defaultPort) {
@@ -254,60 +420,7 @@ export default async function dev(): Promise<void> {
 
   // Plugin system (core + user)
   const corePlugins: ReactClientPlugin[] = [
-    {
-      name: 'css-hmr',
-      async onTransform(code, id) {
-        if (id.endsWith('.css')) {
-          let css = code;
-          // Dynamically try to load postcss/tailwind if config exists
-          const configPaths = [
-            path.join(appRoot, 'tailwind.config.js'),
-            path.join(appRoot, 'tailwind.config.cjs'),
-            path.join(appRoot, 'tailwind.config.mjs'),
-            path.join(appRoot, 'postcss.config.js'),
-            path.join(appRoot, 'postcss.config.cjs'),
-          ];
-          const hasConfig = configPaths.some((p) => fs.existsSync(p));
-
-          if (hasConfig) {
-            try {
-              // Resolve relative to appRoot
-              const appRequire = createRequire(path.join(appRoot, 'package.json'));
-
-              const postcss = appRequire('postcss');
-              const tailwindcss = appRequire('tailwindcss');
-              const autoprefixer = appRequire('autoprefixer');
-
-              const result = await postcss([tailwindcss, autoprefixer]).process(css, {
-                from: id,
-                to: id,
-              });
-              css = result.css;
-            } catch (err) {
-              console.warn(
-                chalk.yellow(`\n⚠️ PostCSS/Tailwind processing failed for ${id}:`),
-                (err as Error).message,
-              );
-            }
-          }
-
-          const escaped = JSON.stringify(css);
-          return `
-            const css = ${escaped};
-            const id = ${JSON.stringify(id)};
-            let style = document.getElementById(id);
-            if (!style) {
-              style = document.createElement("style");
-              style.id = id;
-              document.head.appendChild(style);
-            }
-            style.textContent = css;
-            import.meta.hot?.accept();
-          `;
-        }
-        return code;
-      },
-    },
+    createCssPlugin(appRoot, { hmr: true, mode, css: userConfig.css }),
     {
       name: 'react-refresh',
       async onTransform(code, id) {
@@ -316,27 +429,16 @@ export default async function dev(): Promise<void> {
           // We'll rely on the global hook injected in index.html.
           const relativePath = '/' + path.relative(appRoot, id);
           const hmrBoilerplate = `
-            if (window.__REFRESH_RUNTIME__ && window.__GET_HOT_CONTEXT__) {
-              const ___hot = window.__GET_HOT_CONTEXT__(${JSON.stringify(relativePath)});
-              if (___hot) {
-                window.$RefreshReg$ = (type, id) => {
-                  window.__REFRESH_RUNTIME__.register(type, ${JSON.stringify(
-                    relativePath,
-                  )} + " " + id);
-                };
-                window.$RefreshSig$ = () => window.__REFRESH_RUNTIME__.createSignatureFunctionForTransform();
-              }
+            if (window.__REFRESH_RUNTIME__) {
+              window.$RefreshReg$ = (type, id) => {
+                window.__REFRESH_RUNTIME__.register(type, ${JSON.stringify(
+                  relativePath,
+                )} + " " + id);
+              };
+              window.$RefreshSig$ = () => window.__REFRESH_RUNTIME__.createSignatureFunctionForTransform();
             }
           `;
-          const modBoilerplate = `
-            if (window.__RC_HMR_STATE__) {
-              const ___mod = window.__RC_HMR_STATE__.modules[${JSON.stringify(relativePath)}];
-              if (___mod && ___mod.cb) {
-                if (typeof ___mod.cb === 'function') ___mod.cb();
-              }
-            }
-          `;
-          return `${code}\n${hmrBoilerplate}\n${modBoilerplate}`;
+          return `${code}\n${hmrBoilerplate}`;
         }
         return code;
       },
@@ -347,28 +449,165 @@ export default async function dev(): Promise<void> {
 
   // App + caches
   const app = connect();
-  const transformCache = new Map<string, string>();
+  const transformCache = new Map<string, TransformCacheEntry>();
+  // file -> its last compile error, until it transforms again (replayed to new clients)
+  const compileErrors = new Map<string, HMRMessage>();
+  const moduleGraph = new ModuleGraph(appRoot);
+
+  // --- HTTP + HMR WebSocket server (created up front so onServe plugins can hook in)
+  const httpsOptions = await resolveHttpsOptions(userConfig.server?.https, appRoot);
+  const server = createServer(app, httpsOptions);
+  // server.proxy rules; proxied WebSocket upgrades must not reach the HMR socket
+  const proxyRules = createProxyRules(userConfig.server?.proxy);
+  // HMR socket: shares the dev server unless server.hmr.port asks for its own
+  const hmr = userConfig.server?.hmr ?? {};
+  const hmrServer =
+    hmr.port && hmr.port !== port
+      ? createServer((_req, res) => {
+          res.writeHead(426, { 'Content-Type': 'text/plain' });
+          res.end('Upgrade Required');
+        }, httpsOptions)
+      : server;
+  const isHmrUpgrade = (req: http.IncomingMessage) => {
+    if (findProxyRule(proxyRules, req.url ?? '')?.options.ws) return false;
+    return !hmr.path || (req.url ?? '').split('?')[0] === hmr.path;
+  };
+  // upgrades that are neither proxied nor the HMR socket would hang forever
+  server.on('upgrade', (req, socket, head) => {
+    if (proxyUpgrade(proxyRules, req, socket, head)) return;
+    if (hmrServer !== server || !isHmrUpgrade(req)) socket.destroy();
+  });
+  if (hmrServer !== server) {
+    hmrServer.on('upgrade', (req, socket) => {
+      if (!isHmrUpgrade(req)) socket.destroy();
+    });
+  }
+  // only pages of this dev server connect, also when HMR has its own port or host
+  const isAllowedOrigin = (origin: string, req: http.IncomingMessage) => {
+    if (isSameOrigin(origin, req)) return true;
+    try {
+      const url = new URL(origin);
+      const pagePort = Number(url.port || (url.protocol === 'https:' ? 443 : 80));
+      const requestHost = new URL(`http://${req.headers.host}`).hostname;
+      return (
+        url.hostname === hmr.host ||
+        (pagePort === port &&
+          [requestHost, 'localhost', '127.0.0.1', '[::1]'].includes(url.hostname))
+      );
+    } catch {
+      return false;
+    }
+  };
+  const broadcaster = new BroadcastManager(hmrServer, {
+    filter: isHmrUpgrade,
+    verifyOrigin: isAllowedOrigin,
+  });
+  // pages (re)loaded while a file is broken still get its overlay
+  broadcaster.wss.on('connection', (ws) => {
+    const [error] = compileErrors.values();
+    if (error) broadcaster.send(ws, error);
+  });
+  // What the injected client needs to find the socket; unset fields fall back to `location`
+  const hmrClientConfig = JSON.stringify({
+    protocol: hmr.protocol,
+    host: hmr.host,
+    port: hmr.clientPort ?? (hmrServer === server ? undefined : hmr.port),
+    path: hmr.path,
+  });
+  const serverContext: DevServerContext = {
+    root: appRoot,
+    outDir: cacheDir,
+    app,
+    wss: broadcaster.wss,
+    httpServer: server,
+    broadcast: (msg) => broadcaster.broadcast(msg),
+    ws: broadcaster,
+  };
+
+  // Ask plugins to resolve an import before the built-in resolution kicks in
+  async function pluginResolve(id: string, importer: string): Promise<string | null> {
+    for (const p of plugins) {
+      if (!p.onModuleResolve) continue;
+      try {
+        const resolved = await p.onModuleResolve(id, importer);
+        if (typeof resolved === 'string') return resolved;
+      } catch (err) {
+        console.warn(`plugin ${p.name} onModuleResolve error:`, (err as Error).message);
+      }
+    }
+    return null;
+  }
+
+  // Map a plugin/alias-resolved id to a URL the browser can import
+  function toBrowserUrl(resolved: string): string {
+    if (path.isAbsolute(resolved) && resolved.startsWith(appRoot)) {
+      return '/' + path.relative(appRoot, resolved).replace(/\\/g, '/');
+    }
+    if (resolved.startsWith('/')) return resolved;
+    // bare package ids (e.g. an alias to another package) go through /@modules/
+    if (!/^[a-z]+:/i.test(resolved) && !resolved.startsWith('.')) {
+      return depUrl(resolved);
+    }
+    return resolved;
+  }
+
+  // Let plugins register their own middlewares ahead of the built-in ones
+  for (const p of plugins) {
+    if (!p.onServe) continue;
+    try {
+      await p.onServe(serverContext);
+    } catch (err) {
+      console.warn(`plugin ${p.name} onServe error:`, (err as Error).message);
+    }
+  }
+  // --- Proxy backend requests (before /src and the index.html fallback)
+  if (proxyRules.length) {
+    app.use(createProxyMiddleware(proxyRules));
+  }
+
   // Helper: recursively analyze dependency graph for prebundling (bare imports)
   // --- Dependency Analysis & Prebundling ---
-  async function analyzeGraph(file: string, _seen = new Set<string>()): Promise<Set<string>> {
+  // Every app module reachable from the entry is scanned (static and dynamic imports,
+  // relative paths and aliases); dep files are only followed for their own bare imports.
+  async function analyzeGraph(file: string): Promise<Set<string>> {
     const deps = new Set<string>();
     const visitedFiles = new Set<string>();
 
+    // follow an import into another app module (CSS/JSON/assets have no JS imports)
+    async function walkAppFile(base: string) {
+      const target = await resolveSourceFile(base);
+      if (target && /\.[cm]?[jt]sx?$/.test(target)) await walk(target);
+    }
+
     async function walk(f: string) {
       if (visitedFiles.has(f)) return;
       visitedFiles.add(f);
+      const isDepFile = f.includes('node_modules');
 
       try {
         const code = await fs.readFile(f, 'utf8');
-        const matches = [
-          ...code.matchAll(/\bfrom\s+['"]([^'".\/][^'"]*)['"]/g),
-          ...code.matchAll(/\bimport\(['"]([^'".\/][^'"]*)['"]\)/g),
-          ...code.matchAll(/\brequire\(['"]([^'".\/][^'"]*)['"]\)/g),
-        ];
-
-        for (const m of matches) {
-          const dep = m[1];
-          if (!dep || dep.startsWith('.') || dep.startsWith('/')) continue;
+        const imports = await scanFileImports(code, f);
+
+        for (const imp of imports) {
+          let dep = imp.specifier;
+          if (!dep) continue;
+          if (!isBareImport(dep)) {
+            // dep internals are left to esbuild when prebundling
+            if (isDepFile || !/^\.{0,2}\//.test(dep)) continue;
+            const spec = dep.split('?')[0];
+            await walkAppFile(
+              spec.startsWith('/') ? path.join(appRoot, spec) : path.resolve(path.dirname(f), spec),
+            );
+            continue;
+          }
+          // aliases to app files are scanned like relative imports; package aliases
+          // prebundle their target
+          const aliased = resolveAlias(dep, aliases);
+          if (aliased && path.isAbsolute(aliased)) {
+            if (!isDepFile) await walkAppFile(aliased);
+            continue;
+          }
+          if (aliased) dep = aliased;
           if (!deps.has(dep)) {
             deps.add(dep);
             try {
@@ -390,6 +629,19 @@ export default async function dev(): Promise<void> {
     return deps;
   }
 
+  // Dependency id -> whether its entry is CommonJS (named imports of it need interop)
+  const cjsDeps = new Map<string, Promise<boolean>>();
+  function isCjsDep(id: string): Promise<boolean> {
+    let cjs = cjsDeps.get(id);
+    if (!cjs) {
+      cjs = resolveModuleEntry(id, appRoot)
+        .then(async (file) => (await detectExports(file)).format === 'cjs')
+        .catch(() => false);
+      cjsDeps.set(id, cjs);
+    }
+    return cjs;
+  }
+
   // Helper: esbuild plugin to rewrite bare imports in dependency bundles to /@modules/
   const dependencyBundlePlugin: esbuild.Plugin = {
     name: 'dependency-bundle-plugin',
@@ -412,107 +664,18 @@ export default async function dev(): Promise<void> {
       // Generate a clean ESM proxy that redirects to /@modules/
       build.onLoad({ filter: /.*/, namespace: 'react-client-external' }, (args) => {
         return {
-          contents: `export * from "/@modules/${args.path}"; import d from "/@modules/${args.path}"; export default d;`,
+          contents: `export * from "${depUrl(args.path)}"; import d from "${depUrl(
+            args.path,
+          )}"; export default d;`,
           loader: 'js',
         };
       });
     },
   };
 
-  function getProxyCode(dep: string, resolvedPath: string): string {
-    const resolvedPathEscaped = JSON.stringify(resolvedPath);
-    const reactKeys = [
-      'useState',
-      'useEffect',
-      'useContext',
-      'useReducer',
-      'useCallback',
-      'useMemo',
-      'useRef',
-      'useImperativeHandle',
-      'useLayoutEffect',
-      'useDebugValue',
-      'useDeferredValue',
-      'useTransition',
-      'useId',
-      'useInsertionEffect',
-      'useSyncExternalStore',
-      'createElement',
-      'createContext',
-      'createRef',
-      'forwardRef',
-      'memo',
-      'lazy',
-      'Suspense',
-      'Fragment',
-      'Profiler',
-      'StrictMode',
-      'Children',
-      'Component',
-      'PureComponent',
-      'cloneElement',
-      'isValidElement',
-      'createFactory',
-      'version',
-      'startTransition',
-    ];
-    const reactDomClientKeys = ['createRoot', 'hydrateRoot'];
-    const reactDomKeys = [
-      'render',
-      'hydrate',
-      'unmountComponentAtNode',
-      'findDOMNode',
-      'createPortal',
-      'version',
-      'flushSync',
-    ];
-    const jsxRuntimeKeys = ['jsx', 'jsxs', 'Fragment'];
-
-    if (dep === 'react') {
-      return `import * as m from ${resolvedPathEscaped}; export const { ${reactKeys.join(
-        ', ',
-      )} } = m; export default (m.default || m);`;
-    } else if (dep === 'react-dom/client') {
-      return `import * as m from ${resolvedPathEscaped}; export const { ${reactDomClientKeys.join(
-        ', ',
-      )} } = m; export default (m.default || m);`;
-    } else if (dep === 'react-dom') {
-      return `import * as m from ${resolvedPathEscaped}; export const { ${reactDomKeys.join(
-        ', ',
-      )} } = m; export default (m.default || m);`;
-    } else if (dep === 'react/jsx-runtime' || dep === 'react/jsx-dev-runtime') {
-      return `import * as m from ${resolvedPathEscaped}; export const { ${jsxRuntimeKeys.join(
-        ', ',
-      )} } = m; export default (m.default || m);`;
-    } else {
-      try {
-        const m = require(resolvedPath);
-        const keys = [...new Set([...Object.keys(m), ...Object.getOwnPropertyNames(m)])].filter(
-          (k) =>
-            k !== 'default' &&
-            k !== '__esModule' &&
-            k !== 'constructor' &&
-            k !== 'prototype' &&
-            k !== 'arguments' &&
-            k !== 'caller' &&
-            typeof k === 'string',
-        );
-        if (keys.length > 0) {
-          return `import * as m from ${resolvedPathEscaped}; export const { ${keys.join(
-            ', ',
-          )} } = m; export default (m.default || m);`;
-        } else {
-          return `import _default from ${resolvedPathEscaped}; export default _default;`;
-        }
-      } catch {
-        return `export * from ${resolvedPathEscaped}; import _default from ${resolvedPathEscaped}; export default _default;`;
-      }
-    }
-  }
-
-  // Prebundle dependencies into cache dir using code-splitting
-  async function prebundleDeps(deps: Set<string>): Promise<void> {
-    if (!deps.size) return;
+  // Prebundle dependencies into cache dir using code-splitting; false if esbuild failed
+  async function prebundleDeps(deps: Set<string>): Promise<boolean> {
+    if (!deps.size) return true;
 
     const entryPoints: Record<string, string> = {};
     const depsArray = [...deps];
@@ -526,7 +689,7 @@ export default async function dev(): Promise<void> {
         const resolved = require.resolve(dep, { paths: [appRoot] });
         const key = normalizeCacheKey(dep);
         const proxyPath = path.join(proxyDir, `${key}.js`);
-        const proxyCode = getProxyCode(dep, resolved);
+        const proxyCode = await dependencyProxyCode(resolved);
 
         await fs.writeFile(proxyPath, proxyCode, 'utf8');
         entryPoints[key] = proxyPath;
@@ -535,7 +698,7 @@ export default async function dev(): Promise<void> {
       }
     }
 
-    if (Object.keys(entryPoints).length === 0) return;
+    if (Object.keys(entryPoints).length === 0) return true;
 
     console.log(chalk.cyan('📦 Prebundling dependencies with precision proxies...'));
 
@@ -549,6 +712,8 @@ export default async function dev(): Promise<void> {
         platform: 'browser',
         target: ['es2020'],
         minify: false,
+        // .map files next to the bundles, for devtools and overlay stack frames
+        sourcemap: true,
         plugins: [], // NO external plugins during prebundle, let esbuild manage the graph
         define: {
           'process.env.NODE_ENV': '"development"',
@@ -562,9 +727,8 @@ export default async function dev(): Promise<void> {
         if (file.endsWith('.js')) {
           const filePath = path.join(cacheDir, file);
           let content = await fs.readFile(filePath, 'utf8');
-          content = content.replace(
-            /\b(from|import)\s+['"]\.\/([^'"]+)['"]/g,
-            (_m, type, chunk) => `${type} "/@modules/${chunk}"`,
+          content = await rewriteImports(content, (spec) =>
+            spec.startsWith('./') ? depUrl(spec.slice(2)) : null,
           );
           await fs.writeFile(filePath, content, 'utf8');
         }
@@ -573,34 +737,100 @@ export default async function dev(): Promise<void> {
       // Cleanup proxy dir after build
       await fs.remove(proxyDir).catch(() => {});
       console.log(chalk.green('✅ Prebundling complete.'));
+      return true;
     } catch (err) {
       console.error(chalk.red(`❌ Prebundling failed: ${(err as Error).message}`));
+      return false;
+    }
+  }
+
+  // Prebundle the deps reachable from the entry, reusing the cache while _metadata.json
+  // (lockfile, config, react-client version, dep list) matches. True if it was rebuilt.
+  const optimizeDeps = async (force: boolean): Promise<boolean> => {
+    const deps = await analyzeGraph(entry);
+    // Ensure react/jsx-runtime is prebundled if used
+    deps.add('react/jsx-runtime');
+    for (const dep of discoveredDeps) deps.add(dep);
+    optimizedDeps = deps;
+    const metadata = await createDepsMetadata(appRoot, configDeps, deps);
+    if (!force && isDepsCacheValid(await readDepsMetadata(cacheDir), metadata)) {
+      browserHash = metadata.browserHash;
+      console.log(chalk.gray('📦 Dependencies unchanged — using prebundle cache.'));
+      return false;
+    }
+    // stale chunks from a previous build must not be served under the new hash
+    await fs.emptyDir(cacheDir);
+    browserHash = metadata.browserHash;
+    if (await prebundleDeps(deps)) await writeDepsMetadata(cacheDir, metadata);
+    return true;
+  };
+
+  // Deps the scan missed (e.g. a bare import added while dev is running) are found when
+  // their importer is served; re-optimise once per batch and reload the pages so every
+  // module switches to the new /@modules/ versions together (no duplicate React copies)
+  let optimizedDeps = new Set<string>();
+  const discoveredDeps = new Set<string>();
+  let reoptimizing: Promise<void> | null = null;
+  async function discoverDep(id: string): Promise<void> {
+    if (optimizedDeps.has(id)) return;
+    try {
+      require.resolve(id, { paths: [appRoot] });
+    } catch {
+      // not prebundleable — left to on-demand bundling in /@modules/
+      return;
     }
+    discoveredDeps.add(id);
+    if (!reoptimizing) {
+      reoptimizing = new Promise((resolve) => setTimeout(resolve, 50))
+        .then(async () => {
+          console.log(chalk.yellow('📦 New dependencies found — re-optimizing...'));
+          await optimizeDeps(false);
+          broadcaster.broadcast({ type: 'reload' });
+        })
+        .finally(() => {
+          reoptimizing = null;
+        });
+    }
+    await reoptimizing;
+    // found while an optimisation was already running: needs another round
+    if (!optimizedDeps.has(id)) await discoverDep(id);
   }
 
-  // Build initial prebundle graph from entry
-  const depsSet = await analyzeGraph(entry);
-  // Ensure react/jsx-runtime is prebundled if used
-  depsSet.add('react/jsx-runtime');
-  await prebundleDeps(depsSet);
+  // `--force` only applies to the first start, not to config-triggered restarts
+  await optimizeDeps(!!opts.force && restartPort === undefined);
 
   // Watch package.json for changes to re-prebundle
   const pkgPath = path.join(appRoot, 'package.json');
+  const pkgWatcher = chokidar.watch(pkgPath, { ignoreInitial: true });
   if (await fs.pathExists(pkgPath)) {
-    chokidar.watch(pkgPath).on('change', async () => {
-      console.log(chalk.yellow('📦 package.json changed — rebuilding prebundle...'));
-      const newDeps = await analyzeGraph(entry);
-      newDeps.add('react/jsx-runtime');
-      await prebundleDeps(newDeps);
+    pkgWatcher.on('change', async () => {
+      console.log(chalk.yellow('📦 package.json changed — checking prebundle...'));
+      // new /@modules/ versions: pages must reload to pick them up
+      if (await optimizeDeps(false)) broadcaster.broadcast({ type: 'reload' });
     });
   }
+  // Cache file a /@modules/ id is written to
+  const cacheFileFor = (id: string) =>
+    id.endsWith('.js')
+      ? path.join(cacheDir, id)
+      : path.join(cacheDir, normalizeCacheKey(id) + '.js');
+  // Existing cache file for an id: bundles, shared chunks and their .map files. Chunks
+  // might be requested via /@modules/dep/chunk-xxx.js or just /@modules/chunk-xxx.js
+  async function findCacheFile(id: string): Promise<string | null> {
+    for (const file of [cacheFileFor(id), path.join(cacheDir, path.basename(id))]) {
+      if (isServable(file, cacheDir) && (await fs.pathExists(file))) return file;
+    }
+    return null;
+  }
+
   // --- Serve /@modules/<dep> (prebundled or on-demand esbuild bundle)
+  let refreshRuntime: string | undefined;
   app.use((async (req, res, next) => {
     const url = req.url ?? '';
 
-    // Serve React Refresh runtime
+    // Serve React Refresh runtime (bundled once per server)
     if (url === '/@react-refresh') {
-      res.setHeader('Content-Type', jsContentType());
+      if (refreshRuntime) return sendJs(req, res, refreshRuntime);
       try {
         const runtimePath = require.resolve('react-refresh/runtime');
         // Bundle it to ESM for the browser
@@ -616,7 +846,7 @@ export default async function dev(): Promise<void> {
           },
         });
         const runtimeCode = bundled.outputFiles?.[0]?.text ?? '';
-        return res.end(`
+        refreshRuntime = `
           const prevRefreshReg = window.$RefreshReg$;
           const prevRefreshSig = window.$RefreshSig$;
           ${runtimeCode}
@@ -626,7 +856,8 @@ export default async function dev(): Promise<void> {
           window.$RefreshReg$ = prevRefreshReg;
           window.$RefreshSig$ = prevRefreshSig;
           export default window.__REFRESH_RUNTIME__;
-        `);
+        `;
+        return sendJs(req, res, refreshRuntime);
       } catch (err) {
         res.writeHead(500);
         return res.end(`// react-refresh runtime error: ${(err as Error).message}`);
@@ -634,39 +865,43 @@ export default async function dev(): Promise<void> {
     }
 
     if (!url.startsWith('/@modules/')) return next();
-    const id = url.replace(/^\/@modules\//, '');
-    if (!id) {
+    const [pathname, query = ''] = url.split('?');
+    const id = pathname.replace(/^\/@modules\//, '');
+    // versioned URLs change whenever the prebundle is rebuilt, so they never go stale
+    const version = new URLSearchParams(query).get('v');
+    if (version && version === browserHash) {
+      res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    }
+    // only bare package ids: relative or absolute ones would reach files outside the app
+    if (!id || /^[./\\]/.test(id) || id.split(/[/\\]/).includes('..')) {
       res.writeHead(400);
       return res.end('// invalid module');
     }
 
     try {
       // 1. Check if it's a file in the cache directory (prebundled or shared chunk)
-      // Chunks might be requested via /@modules/dep/chunk-xxx.js or just /@modules/chunk-xxx.js
-      const idBase = path.basename(id);
-      const cacheFile = id.endsWith('.js')
-        ? path.join(cacheDir, id)
-        : path.join(cacheDir, normalizeCacheKey(id) + '.js');
-      const cacheFileAlternative = path.join(cacheDir, idBase);
-
-      let foundCacheFile = '';
-      if (await fs.pathExists(cacheFile)) {
-        foundCacheFile = cacheFile;
-      } else if (await fs.pathExists(cacheFileAlternative)) {
-        foundCacheFile = cacheFileAlternative;
+      const cacheFile = cacheFileFor(id);
+      const foundCacheFile = await findCacheFile(id);
+      if (foundCacheFile?.endsWith('.map')) {
+        res.setHeader('Content-Type', 'application/json');
+        return res.end(await fs.readFile(foundCacheFile, 'utf8'));
       }
-
       if (foundCacheFile) {
-        res.setHeader('Content-Type', jsContentType());
-        return res.end(await fs.readFile(foundCacheFile, 'utf8'));
+        return sendJs(req, res, await fs.readFile(foundCacheFile, 'utf8'));
       }
 
-      // 2. Resolve the actual entry file for bare imports
-      const entryFile = await resolveModuleEntry(id, appRoot);
+      // 2. Resolve the actual entry file for bare imports (plugins get the first say)
+      const referer = req.headers.referer ? new URL(req.headers.referer).pathname : '';
+      const importer = referer ? path.join(appRoot, referer.replace(/^\//, '')) : appRoot;
+      const pluginResolved = await pluginResolve(id, importer);
+      const entryFile =
+        pluginResolved && path.isAbsolute(pluginResolved)
+          ? pluginResolved
+          : await resolveModuleEntry(pluginResolved || id, appRoot);
       const tempProxyDir = path.join(cacheDir, '_temp_on_demand');
       await fs.ensureDir(tempProxyDir);
       const proxyPath = path.join(tempProxyDir, `${normalizeCacheKey(id)}.js`);
-      await fs.writeFile(proxyPath, getProxyCode(id, entryFile), 'utf8');
+      await fs.writeFile(proxyPath, await dependencyProxyCode(entryFile), 'utf8');
 
       const result = await esbuild.build({
         entryPoints: [proxyPath],
@@ -674,6 +909,8 @@ export default async function dev(): Promise<void> {
         platform: 'browser',
         format: 'esm',
         write: false,
+        outfile: cacheFile,
+        sourcemap: true,
         target: ['es2020'],
         jsx: 'automatic',
         // Critical: use dependencyBundlePlugin to ensure sub-deps are rewritten to /@modules/
@@ -682,20 +919,22 @@ export default async function dev(): Promise<void> {
           'process.env.NODE_ENV': '"development"',
         },
       });
-      const output = result.outputFiles?.[0]?.text ?? '';
+      const output = result.outputFiles?.find((f) => f.path === cacheFile)?.text ?? '';
+      const sourceMap = result.outputFiles?.find((f) => f.path === `${cacheFile}.map`);
       // Cleanup temp proxy
       await fs.remove(proxyPath).catch(() => {});
       // Write cache and respond
       await fs.writeFile(cacheFile, output, 'utf8');
-      res.setHeader('Content-Type', jsContentType());
-      res.end(output);
+      if (sourceMap) await fs.writeFile(sourceMap.path, sourceMap.text, 'utf8');
+      sendJs(req, res, output);
     } catch (err) {
       res.writeHead(500);
       res.end(`// Failed to resolve module ${id}: ${(err as Error).message}`);
     }
   }) as NextHandleFunction);
 
-  // --- Serve runtime overlay (inline, no external dependencies)
+  // --- Serve runtime overlay and HMR client (inline, no external dependencies)
+  const HMR_CLIENT_RUNTIME = createHmrClientRuntime(hmrClientConfig);
   const OVERLAY_RUNTIME = `
 const overlayId = "__rc_error_overlay__";
 (function(){ 
@@ -706,14 +945,18 @@ const overlayId = "__rc_error_overlay__";
     #\${overlayId} pre{background:rgba(255,255,255,0.06);padding:12px;border-radius:6px;overflow:auto;}
     .frame-file{color:#ffa500;cursor:pointer;font-weight:bold;margin-bottom:4px;}
     .line-number{opacity:0.6;margin-right:10px;display:inline-block;width:2em;text-align:right;}
+    .error-plugin{color:#c678dd;margin-bottom:8px;}
   \`;
   document.head.appendChild(style);
+  // served module URL + line/column (Chrome \`at f (url:1:2)\`, Firefox \`f@url:1:2\`) -> original source
   async function mapStackFrame(frame){
-    const m = frame.match(/(\\/src\\/[^\s:]+):(\\d+):(\\d+)/);
+    const m = frame.match(/(https?:\\/\\/[^\\s()]+):(\\d+):(\\d+)/);
     if(!m) return frame;
-    const [,file,line,col] = m;
+    const [,href,line,col] = m;
+    const url = new URL(href);
+    if(url.origin !== location.origin) return frame;
     try{
-      const resp = await fetch(\`/@source-map?file=\${file}&line=\${line}&column=\${col}\`);
+      const resp = await fetch(\`/@source-map?file=\${encodeURIComponent(url.pathname)}&line=\${line}&column=\${col}\`);
       if(!resp.ok) return frame;
       const pos = await resp.json();
       if(pos.source) return pos;
@@ -723,13 +966,36 @@ const overlayId = "__rc_error_overlay__";
   function highlightSimple(s){
     return s.replace(/(const|let|var|function|return|import|from|export|class|new|await|async|if|else|for|while|try|catch|throw)/g,'<span style="color:#ffb86c">$1</span>');
   }
+  // compile errors from the server stay up until an update clears them
+  let compileError = false;
+  function renderCompileError(overlay, info){
+    if(info.plugin){
+      const plugin = document.createElement("div");
+      plugin.className = "error-plugin";
+      plugin.textContent = "[plugin " + info.plugin + "]";
+      overlay.appendChild(plugin);
+    }
+    if(info.file){
+      const link = document.createElement("div");
+      link.className = "frame-file";
+      link.textContent = info.file + (info.line ? ":" + info.line + ":" + info.column : "");
+      link.onclick = ()=>window.open("vscode://file/" + info.file + (info.line ? ":" + info.line + ":" + info.column : ""));
+      overlay.appendChild(link);
+    }
+    const pre = document.createElement("pre");
+    pre.textContent = info.frame || info.stack || "";
+    if(pre.textContent) overlay.appendChild(pre);
+  }
   async function renderOverlay(err){
+    if(compileError && !err.err) return;
+    compileError = !!err.err;
     const overlay = document.getElementById(overlayId) || document.body.appendChild(Object.assign(document.createElement("div"),{id:overlayId}));
     overlay.innerHTML = "";
     const title = document.createElement("h2");
     title.textContent = "🔥 " + (err.message || "Error");
     overlay.appendChild(title);
-    const frames = (err.stack||"").split("\\n").filter(l => /src\\//.test(l));
+    if(err.err) return renderCompileError(overlay, err.err);
+    const frames = (err.stack||"").split("\\n").filter(l => l.includes(location.origin));
     for(const frame of frames){
       const mapped = await mapStackFrame(frame);
       if(typeof mapped === "string") continue;
@@ -748,7 +1014,10 @@ const overlayId = "__rc_error_overlay__";
     }
   }
   window.showErrorOverlay = (err)=>renderOverlay(err);
-  window.clearErrorOverlay = ()=>document.getElementById(overlayId)?.remove();
+  window.clearErrorOverlay = ()=>{
+    compileError = false;
+    document.getElementById(overlayId)?.remove();
+  };
   window.addEventListener("error", e => window.showErrorOverlay?.(e.error || e));
   window.addEventListener("unhandledrejection", e => window.showErrorOverlay?.(e.reason || e));
 })();
@@ -759,31 +1028,259 @@ const overlayId = "__rc_error_overlay__";
       res.setHeader('Content-Type', jsContentType());
       return res.end(OVERLAY_RUNTIME);
     }
+    if (req.url === '/@runtime/hmr') {
+      res.setHeader('Content-Type', jsContentType());
+      return res.end(HMR_CLIENT_RUNTIME);
+    }
     next();
   }) as NextHandleFunction);
 
-  // --- minimal /@source-map: return snippet around requested line of original source file
+  /**
+   * An app module as served to the browser: plugin transforms, esbuild and the import
+   * rewrites, reusing the last result while its inputs are unchanged. Compile errors
+   * are reported in the terminal and the overlay, then thrown.
+   */
+  async function transformModule(found: string): Promise<TransformCacheEntry> {
+    // Reuse the last transform while the file, its HMR stamp and the prebundle are unchanged
+    const { mtimeMs } = await fs.stat(found);
+    const node = moduleGraph.ensure(found);
+    const cached = transformCache.get(found);
+    if (
+      cached &&
+      cached.mtimeMs === mtimeMs &&
+      cached.hmrTimestamp === node.lastHMRTimestamp &&
+      cached.browserHash === browserHash
+    ) {
+      return cached;
+    }
+
+    let code = '';
+    let plugin: string | undefined;
+    try {
+      code = await fs.readFile(found, 'utf8');
+
+      // run plugin transforms (files they report, e.g. Sass partials, join the module graph;
+      // reported directories, e.g. Tailwind content, are matched on every change)
+      const watchFiles = new Set<string>();
+      const watchedDirs: { dir: string; glob: string }[] = [];
+      const transformContext = {
+        addWatchFile: (file: string) => watchFiles.add(file),
+        addWatchDir: (dir: string, glob: string) => watchedDirs.push({ dir, glob }),
+      };
+      for (const p of plugins) {
+        if (p.onTransform) {
+          plugin = p.name;
+          const out = await p.onTransform(code, found, transformContext);
+          if (typeof out === 'string') code = out;
+        }
+      }
+      plugin = undefined;
+
+      const ext = path.extname(found).toLowerCase();
+      const loader: esbuild.Loader =
+        ext === '.ts'
+          ? 'ts'
+          : ext === '.tsx'
+          ? 'tsx'
+          : ext === '.jsx'
+          ? 'jsx'
+          : ext === '.json'
+          ? 'json'
+          : 'js';
+      const result = await esbuild.transform(code, {
+        loader,
+        sourcemap: 'inline',
+        // the map's source resolves against the module URL to the original file
+        sourcefile: path.basename(found),
+        target: ['es2020'],
+        jsx: 'automatic',
+        define: envVars,
+      });
+
+      let transformedCode = result.code;
+
+      // Inject HMR/Refresh boilerplate (ESM-Safe: use global accessors and append logic)
+      const modulePath = '/' + path.relative(appRoot, found).replace(/\\/g, '/');
+      if (ext === '.jsx' || ext === '.tsx') {
+        const footer = await refreshBoundaryFooter(transformedCode, modulePath);
+        // keep the inline source map comment last
+        if (footer) {
+          transformedCode = transformedCode.replace(
+            /(\/\/# sourceMappingURL=\S*\s*)?$/,
+            (map = '') => footer + map,
+          );
+        }
+      }
+
+      // Module graph: app files this module imports (by browser URL) and what it accepts
+      const importedFiles = new Set<string>(watchFiles);
+      const unresolvedImports = new Set<string>();
+      const toAppFile = async (url: string) => {
+        const base = url.startsWith('/')
+          ? path.join(appRoot, decodeURIComponent(url.split('?')[0]))
+          : path.resolve(path.dirname(found), url.split('?')[0]);
+        const file = await resolveSourceFile(base);
+        if (!file) unresolvedImports.add(base);
+        return file;
+      };
+      // Stamp imports of modules touched by an HMR update so the browser refetches them;
+      // plain asset imports are marked `?import` so they load as their URL, not the file
+      const withTimestamp = async (url: string) => {
+        const file = await toAppFile(url);
+        if (!file) return url;
+        importedFiles.add(file);
+        if (isAsset(file) && !assetQuery(url)) url += `${url.includes('?') ? '&' : '?'}import`;
+        const timestamp = moduleGraph.getByFile(file)?.lastHMRTimestamp;
+        return timestamp ? `${url}${url.includes('?') ? '&' : '?'}t=${timestamp}` : url;
+      };
+
+      const hotAccepts = await scanHotAccepts(transformedCode);
+      const acceptedDeps = new Set<string>();
+      const depUrls: Record<string, string> = {};
+      for (const dep of hotAccepts.acceptedDeps) {
+        const file = await toAppFile(dep);
+        if (!file) continue;
+        depUrls[dep] = moduleGraph.ensure(file).url;
+        acceptedDeps.add(depUrls[dep]);
+      }
+
+      // Lexer-based rewrite: real import.meta.hot -> this execution's hot context (created
+      // on the first line, see below), bare imports -> plugin-resolved id, alias target or
+      // /@modules/<dep>
+      const resolvedImports = new Map<string, string>();
+      transformedCode = await rewriteImports(
+        transformedCode,
+        async (dep) => {
+          if (!isBareImport(dep)) {
+            return /^\.{0,2}\//.test(dep) ? withTimestamp(dep) : null;
+          }
+          if (!resolvedImports.has(dep)) {
+            // plugins first, then resolve.alias / tsconfig paths, then node_modules
+            const resolved = (await pluginResolve(dep, found)) ?? resolveAlias(dep, aliases);
+            let url = resolved ? toBrowserUrl(resolved) : depUrl(dep);
+            if (url.startsWith('/@modules/')) {
+              const id = url.slice('/@modules/'.length).split('?')[0];
+              if (!optimizedDeps.has(id)) {
+                await discoverDep(id);
+                url = depUrl(id);
+              }
+            }
+            resolvedImports.set(dep, url);
+          }
+          const url = resolvedImports.get(dep) ?? null;
+          return url && url.startsWith('/') && !url.startsWith('/@') ? withTimestamp(url) : url;
+        },
+        '__rc_hot__',
+      );
+      // named imports of CommonJS deps read `module.exports` directly
+      transformedCode = await interopCjsImports(
+        transformedCode,
+        (url) =>
+          url.startsWith('/@modules/') && isCjsDep(url.slice('/@modules/'.length).split('?')[0]),
+      );
+      if (hotAccepts.usesHot) {
+        // on the first line, so no line numbers change
+        const hotContext = `const __rc_hot__ = window.__GET_HOT_CONTEXT__?.(${JSON.stringify(
+          modulePath,
+        )}, ${JSON.stringify(depUrls)});`;
+        transformedCode = applyEdits(transformedCode, [{ start: 0, end: 0, text: hotContext }]);
+      }
+
+      const pruned = moduleGraph.updateModuleInfo(node, importedFiles, {
+        isSelfAccepting: hotAccepts.selfAccepting,
+        isDeclined: hotAccepts.declined,
+        acceptedDeps,
+        unresolvedImports,
+        watchedDirs,
+      });
+      if (pruned.length) broadcaster.broadcast({ type: 'prune', paths: pruned.map((n) => n.url) });
+      // dependencies outside src/ (tailwind.config, index.html, ...) need watching too
+      for (const file of watchFiles) {
+        if (path.relative(srcDir, file).startsWith('..')) watcher.add(file);
+      }
+
+      const entry: TransformCacheEntry = {
+        mtimeMs,
+        hmrTimestamp: node.lastHMRTimestamp,
+        browserHash,
+        code: transformedCode,
+        etag: createEtag(transformedCode),
+      };
+      transformCache.set(found, entry);
+      // fixed: the update clears the overlay, so show whatever else is still broken
+      if (compileErrors.delete(found)) {
+        const [next] = compileErrors.values();
+        if (next) broadcaster.broadcast(next);
+      }
+      return entry;
+    } catch (err) {
+      // the overlay shows where it failed; the next successful update clears it
+      const payload = await createErrorPayload(err, { file: found, source: code, plugin });
+      const where =
+        path.relative(appRoot, payload.file ?? found) +
+        (payload.line ? `:${payload.line}:${payload.column}` : '');
+      console.error(chalk.red(`❌ ${plugin ? `[${plugin}] ` : ''}${where}: ${payload.message}`));
+      if (payload.frame) console.error(chalk.gray(payload.frame));
+      const msg: HMRMessage = {
+        type: 'error',
+        path: node.url,
+        message: payload.message,
+        err: payload,
+      };
+      compileErrors.set(found, msg);
+      broadcaster.broadcast(msg);
+      throw new Error(payload.message);
+    }
+  }
+
+  // --- /@source-map: original position (and a snippet) of a served module's line/column,
+  // through the module's inline map or a prebundled dep's .map file
   app.use((async (req, res, next) => {
     const url = req.url ?? '';
     if (!url.startsWith('/@source-map')) return next();
     try {
       const parsed = new URL(req.url ?? '', `http://localhost:${port}`);
-      const file = parsed.searchParams.get('file') ?? '';
-      const lineStr = parsed.searchParams.get('line') ?? '0';
-      const lineNum = Number(lineStr) || 0;
+      const file = (parsed.searchParams.get('file') ?? '').split('?')[0];
+      const lineNum = Number(parsed.searchParams.get('line')) || 0;
+      const columnNum = Number(parsed.searchParams.get('column')) || 1;
       if (!file) {
         res.writeHead(400);
         return res.end('{}');
       }
-      const filePath = path.join(appRoot, file.startsWith('/') ? file.slice(1) : file);
-      if (!(await fs.pathExists(filePath))) {
+
+      // only what the server itself serves: prebundled deps and app modules, exactly
+      // as the browser got them
+      let generated: { file: string; code: string } | null = null;
+      if (file.startsWith('/@modules/')) {
+        const cacheFile = await findCacheFile(file.slice('/@modules/'.length));
+        if (cacheFile) generated = { file: cacheFile, code: await fs.readFile(cacheFile, 'utf8') };
+      } else {
+        const found = await resolveSourceFile(path.join(appRoot, decodeURIComponent(file)));
+        if (found && isServable(found, appRoot) && !isAsset(found)) {
+          generated = { file: found, code: (await transformModule(found)).code };
+        }
+      }
+      if (!generated) {
         res.writeHead(404);
         return res.end('{}');
       }
-      const src = await fs.readFile(filePath, 'utf8');
-      const lines = src.split(/\r?\n/);
-      const start = Math.max(0, lineNum - 3 - 1);
-      const end = Math.min(lines.length, lineNum + 2);
+
+      const map = await extractSourceMap(generated.code, generated.file);
+      const original = map && originalPositionFor(map, lineNum, columnNum);
+      const source = original?.source ?? generated.file;
+      const line = original?.line ?? lineNum;
+      const column = original?.column ?? columnNum;
+      // app files are read as they are on disk; anything else only from the map
+      const content =
+        isServable(source, appRoot) && (await fs.pathExists(source))
+          ? await fs.readFile(source, 'utf8')
+          : original
+          ? original.content ?? ''
+          : generated.code;
+
+      const lines = content.split(/\r?\n/);
+      const start = Math.max(0, line - 3 - 1);
+      const end = Math.min(lines.length, line + 2);
       const snippet = lines
         .slice(start, end)
         .map((l, i) => {
@@ -794,7 +1291,7 @@ const overlayId = "__rc_error_overlay__";
         })
         .join('\n');
       res.setHeader('Content-Type', 'application/json');
-      res.end(JSON.stringify({ source: filePath, line: lineNum, column: 0, snippet }));
+      res.end(JSON.stringify({ source, line, column, snippet }));
     } catch (err) {
       res.writeHead(500);
       res.end(JSON.stringify({ error: (err as Error).message }));
@@ -805,21 +1302,10 @@ const overlayId = "__rc_error_overlay__";
   app.use((async (req, res, next) => {
     const raw = decodeURIComponent((req.url ?? '').split('?')[0]);
     const publicFile = path.join(publicDir, raw.replace(/^\//, ''));
+    if (!isServable(publicFile, publicDir)) return next();
     if ((await fs.pathExists(publicFile)) && !(await fs.stat(publicFile)).isDirectory()) {
-      const ext = path.extname(publicFile).toLowerCase();
-      // Simple content type map
-      const types: Record<string, string> = {
-        '.html': 'text/html',
-        '.js': 'application/javascript',
-        '.css': 'text/css',
-        '.json': 'application/json',
-        '.png': 'image/png',
-        '.jpg': 'image/jpeg',
-        '.svg': 'image/svg+xml',
-        '.ico': 'image/x-icon',
-      };
       const content = await fs.readFile(publicFile);
-      res.setHeader('Content-Type', types[ext] || 'application/octet-stream');
+      res.setHeader('Content-Type', mimeType(publicFile));
       res.setHeader('Content-Length', content.length);
       return res.end(content);
     }
@@ -828,34 +1314,49 @@ const overlayId = "__rc_error_overlay__";
 
   // --- Serve /src/* files (on-the-fly transform + bare import rewrite)
   app.use((async (req, res, next) => {
-    const url = req.url ?? '';
-    const isAsset = url.match(/\.(png|jpe?g|gif|svg|webp|avif|json)$/i);
-    if (url.includes('.') && !url.match(/\.[tj]sx?$/) && !url.endsWith('.css') && !isAsset)
+    // ignore the query (?t= HMR timestamps, ?import) when matching extensions
+    const url = (req.url ?? '').split('?')[0];
+    const query = assetQuery(req.url ?? '');
+    if (
+      url.includes('.') &&
+      !url.match(/\.[tj]sx?$/) &&
+      !url.endsWith('.json') &&
+      !isStyleFile(url) &&
+      !isAsset(url) &&
+      !query
+    ) {
       return next();
-
-    const raw = decodeURIComponent((req.url ?? '').split('?')[0]);
-    const filePath = path.join(appRoot, raw.replace(/^\//, ''));
-    // Try file extensions if not exact file
-    const exts = ['', '.tsx', '.ts', '.jsx', '.js', '.css', '.json'];
-    let found = '';
-    for (const ext of exts) {
-      try {
-        const target = filePath + ext;
-        const stat = await fs.stat(target);
-        if (stat.isFile()) {
-          found = target;
-          break;
-        }
-      } catch {
-        // Continue
-      }
     }
+
+    const raw = decodeURIComponent(url);
+    const found = await resolveSourceFile(path.join(appRoot, raw.replace(/^\//, '')));
     if (!found) return next();
+    if (!isServable(found, appRoot)) {
+      res.writeHead(403);
+      return res.end('Forbidden');
+    }
 
-    // Handle Asset Imports (Images, SVGs, etc.)
-    const ext = path.extname(found).toLowerCase();
-    const assets = ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp', '.avif'];
-    if (assets.includes(ext)) {
+    // `?raw` / `?inline` / `?url` imports: source and public files, and whatever else
+    // app modules import (it is in the module graph)
+    const relativePath = '/' + path.relative(appRoot, found).replace(/\\/g, '/');
+    if (
+      query &&
+      !isInside(found, srcDir) &&
+      !isInside(found, publicDir) &&
+      !moduleGraph.getByFile(found)
+    ) {
+      res.writeHead(403);
+      return res.end('Forbidden');
+    }
+    if (query === 'raw' || query === 'inline') {
+      return sendJs(req, res, await assetQueryModule(found, query));
+    }
+    if (query === 'url') {
+      return sendJs(req, res, `export default ${JSON.stringify(relativePath)};`);
+    }
+
+    // Asset files: their URL when imported from JS (rewritten with ?import), else the file
+    if (isAsset(found)) {
       const secFetchDest = req.headers['sec-fetch-dest'];
       const accept = req.headers.accept || '';
 
@@ -868,89 +1369,21 @@ const overlayId = "__rc_error_overlay__";
         secFetchDest === 'script' ||
         (accept.includes('application/javascript') && !accept.includes('image/'));
 
-      const relativePath = '/' + path.relative(appRoot, found).replace(/\\/g, '/');
-
       if (isImport) {
-        res.setHeader('Content-Type', jsContentType());
-        return res.end(`export default ${JSON.stringify(relativePath)};`);
+        return sendJs(req, res, `export default ${JSON.stringify(relativePath)};`);
       }
 
-      // Serve raw asset
-      const types: Record<string, string> = {
-        '.png': 'image/png',
-        '.jpg': 'image/jpeg',
-        '.jpeg': 'image/jpeg',
-        '.gif': 'image/gif',
-        '.svg': 'image/svg+xml',
-        '.webp': 'image/webp',
-        '.avif': 'image/avif',
-      };
       const content = await fs.readFile(found);
-      res.setHeader('Content-Type', types[ext] || 'application/octet-stream');
+      res.setHeader('Content-Type', mimeType(found));
       return res.end(content);
     }
 
     try {
-      let code = await fs.readFile(found, 'utf8');
-
-      // run plugin transforms
-      for (const p of plugins) {
-        if (p.onTransform) {
-          const out = await p.onTransform(code, found);
-          if (typeof out === 'string') code = out;
-        }
-      }
-
-      const ext = path.extname(found).toLowerCase();
-      const loader: esbuild.Loader =
-        ext === '.ts'
-          ? 'ts'
-          : ext === '.tsx'
-          ? 'tsx'
-          : ext === '.jsx'
-          ? 'jsx'
-          : ext === '.json'
-          ? 'json'
-          : 'js';
-      const result = await esbuild.transform(code, {
-        loader,
-        sourcemap: 'inline',
-        target: ['es2020'],
-        jsx: 'automatic',
-        define: envVars,
-      });
-
-      let transformedCode = result.code;
-
-      // Inject HMR/Refresh boilerplate (ESM-Safe: use global accessors and append logic)
-      const modulePath = '/' + path.relative(appRoot, found).replace(/\\/g, '/');
-
-      // 1. Replace import.meta.hot with a global context accessor (safe anywhere in ESM)
-      transformedCode = transformedCode.replace(
-        /import\.meta\.hot/g,
-        `window.__GET_HOT_CONTEXT__?.(${JSON.stringify(modulePath)})`,
-      );
-
-      // rewrite bare imports -> /@modules/<dep>
-      transformedCode = transformedCode
-        .replace(/\bfrom\s+['"]([^'".\/][^'"]*)['"]/g, (_m, dep) => `from "/@modules/${dep}"`)
-        .replace(/\bimport\(['"]([^'".\/][^'"]*)['"]\)/g, (_m, dep) => `import("/@modules/${dep}")`)
-        .replace(
-          /(\bimport\s+['"])([^'".\/][^'"]*)(['"])/gm,
-          (_m, start, dep, end) => `${start}/@modules/${dep}${end}`,
-        )
-        .replace(
-          /^(export\s+\*\s+from\s+['"])([^'".\/][^'"]*)(['"])/gm,
-          (_m, start, dep, end) => `${start}/@modules/${dep}${end}`,
-        );
-
-      transformCache.set(found, transformedCode);
-      res.setHeader('Content-Type', jsContentType());
-      res.end(transformedCode);
+      const { code, etag } = await transformModule(found);
+      sendJs(req, res, code, etag);
     } catch (err) {
-      const e = err as Error;
       res.writeHead(500);
-      res.end(`// transform error: ${e.message}`);
+      res.end(`// transform error: ${(err as Error).message}`);
     }
   }) as NextHandleFunction);
 
@@ -987,36 +1420,7 @@ const overlayId = "__rc_error_overlay__";
   window.__REFRESH_RUNTIME__ = RefreshRuntime;
 </script>
 <script type="module" src="/@runtime/overlay"></script>
-<script type="module">
-  window.__RC_HMR_STATE__ = { modules: {} };
-  window.__GET_HOT_CONTEXT__ = (id) => {
-    return window.__RC_HMR_STATE__.modules[id] || (window.__RC_HMR_STATE__.modules[id] = {
-      id,
-      accept: (cb) => { window.__RC_HMR_STATE__.modules[id].cb = cb || true; }
-    });
-  };
-  const ws = new WebSocket("ws://" + location.host);
-  ws.onmessage = (e) => {
-    const msg = JSON.parse(e.data);
-    if (msg.type === "reload") location.reload();
-    if (msg.type === "error") window.showErrorOverlay?.(msg);
-    if (msg.type === "update") {
-      window.clearErrorOverlay?.();
-      const mod = window.__RC_HMR_STATE__.modules[msg.path];
-      if (mod && mod.cb) {
-        import(msg.path + "?t=" + Date.now()).then(() => {
-          if (typeof mod.cb === 'function') mod.cb();
-          // Trigger Fast Refresh after module update
-          if (window.__REFRESH_RUNTIME__) {
-            window.__REFRESH_RUNTIME__.performReactRefresh();
-          }
-        });
-      } else {
-        location.reload();
-      }
-    }
-  };
-</script>`.trim();
+<script type="module" src="/@runtime/hmr"></script>`.trim();
       // Inject preamble at the top of <body>
       const newHtml = html.replace('<body>', `<body>\n${reactRefreshPreamble}`);
       res.setHeader('Content-Type', 'text/html; charset=utf-8');
@@ -1027,12 +1431,54 @@ const overlayId = "__rc_error_overlay__";
     }
   }) as NextHandleFunction);
 
-  // --- HMR WebSocket server
-  const server = http.createServer(app);
-  const broadcaster = new BroadcastManager(server);
-
   // Watch files and trigger plugin onHotUpdate + broadcast HMR message
-  const watcher = chokidar.watch(path.join(appRoot, 'src'), { ignoreInitial: true });
+  const srcDir = path.join(appRoot, 'src');
+  const watcher = chokidar.watch(srcDir, { ignoreInitial: true });
+  // Send module-graph updates for `nodes`: re-import their HMR boundaries, or reload the
+  // page when an update reaches the entry
+  const propagate = (nodes: ModuleNode[], changed: string) => {
+    const timestamp = Date.now();
+    const updates: HMRUpdate[] = [];
+    for (const node of nodes) {
+      const boundaries = moduleGraph.propagateUpdate(node, timestamp);
+      if (!boundaries) {
+        broadcaster.broadcast({ type: 'reload', path: changed });
+        return;
+      }
+      for (const { boundary, acceptedVia } of boundaries) {
+        updates.push({ path: boundary.url, acceptedPath: acceptedVia.url, timestamp });
+      }
+    }
+    if (updates.length) broadcaster.broadcast({ type: 'update', path: changed, updates });
+  };
+  const toUrl = (file: string) => '/' + path.relative(appRoot, file).replace(/\\/g, '/');
+
+  // `import.meta.hot.invalidate()`: the module could not apply its update, so hand it to
+  // its importers as if it had changed and nothing accepted it
+  broadcaster.on('react-client:invalidate', (data) => {
+    const { path: url } = (data ?? {}) as { path?: string };
+    const node = url && moduleGraph.getByFile(path.join(appRoot, url));
+    if (!node || !node.importers.size) {
+      broadcaster.broadcast({ type: 'reload', path: url });
+      return;
+    }
+    node.lastHMRTimestamp = Date.now();
+    propagate([...node.importers], node.url);
+  });
+
+  watcher.on('add', (file) => {
+    // imports that failed before the file existed can now resolve
+    const nodes = [
+      ...moduleGraph.findUnresolvedImporters(file),
+      ...moduleGraph.findDirWatchers(file),
+    ];
+    propagate([...new Set(nodes)], toUrl(file));
+  });
+  watcher.on('unlink', (file) => {
+    transformCache.delete(file);
+    compileErrors.delete(file);
+    propagate(moduleGraph.remove(file), toUrl(file));
+  });
   watcher.on('change', async (file) => {
     transformCache.delete(file);
     // plugin hook onHotUpdate optionally
@@ -1051,40 +1497,64 @@ const overlayId = "__rc_error_overlay__";
       }
     }
 
-    // default: broadcast update for changed file
-    broadcaster.broadcast({
-      type: 'update',
-      path: '/' + path.relative(appRoot, file).replace(/\\/g, '/'),
-    });
+    // default: update the HMR boundaries of the changed module (modules the browser never
+    // loaded are not in the graph and need nothing); modules watching its directory, e.g.
+    // Tailwind CSS scanning it for class names, are re-run too
+    const node = moduleGraph.getByFile(file);
+    const nodes = [...(node ? [node] : []), ...moduleGraph.findDirWatchers(file)];
+    if (nodes.length) propagate([...new Set(nodes)], toUrl(file));
   });
   // start server
-  server.listen(port, async () => {
-    const url = `http://localhost:${port}`;
-    console.log(chalk.cyan.bold('\n🚀 React Client Dev Server'));
-    console.log(chalk.green(`⚡ Running at: ${url}`));
-    if (userConfig.server?.open !== false) {
-      try {
-        await open(url);
-      } catch {
-        // ignore open errors
-      }
-    }
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
   });
+  if (hmrServer !== server) {
+    await new Promise<void>((resolve, reject) => {
+      hmrServer.once('error', reject);
+      hmrServer.listen(hmr.port, host, () => {
+        hmrServer.off('error', reject);
+        resolve();
+      });
+    });
+  }
 
-  // graceful shutdown
-  const shutdown = async () => {
-    console.log(chalk.red('\n🛑 Shutting down dev server...'));
+  const urls = getServerUrls(httpsOptions ? 'https' : 'http', host, port);
+  const url = urls.local;
+  console.log(chalk.cyan.bold('\n🚀 React Client Dev Server'));
+  printServerUrls(urls);
+  for (const p of plugins) {
+    if (!p.onServerStart) continue;
     try {
-      await watcher.close();
-      broadcaster.close();
-      server.close();
+      await p.onServerStart(serverContext);
     } catch (err) {
-      console.error(chalk.red('⚠️ Error during shutdown:'), (err as Error).message);
-    } finally {
-      process.exit(0);
+      console.warn(`plugin ${p.name} onServerStart error:`, (err as Error).message);
     }
-  };
+  }
+  // only open the browser on first start, not on config restarts
+  if (restartPort === undefined && userConfig.server?.open !== false) {
+    try {
+      await open(url);
+    } catch {
+      // ignore open errors
+    }
+  }
 
-  process.on('SIGINT', shutdown);
-  process.on('SIGTERM', shutdown);
+  return {
+    port,
+    restartFiles,
+    async close() {
+      await watcher.close();
+      await pkgWatcher.close();
+      // 1012 = Service Restart: the client waits for the server and reloads
+      broadcaster.close(1012, 'server restart');
+      for (const srv of new Set([server, hmrServer])) {
+        srv.closeAllConnections();
+        await new Promise<void>((resolve) => srv.close(() => resolve()));
+      }
+    },
+  };
 }
@@ -5,6 +5,9 @@ import chalk from 'chalk';
 import detectPort from 'detect-port';
 import open from 'open';
 import { loadReactClientConfig } from '../../utils/loadConfig.js';
+import { createServer, resolveHttpsOptions } from '../../server/https.js';
+import { getServerUrls, printServerUrls, resolveHost } from '../../server/network.js';
+import type { PreviewOptions } from '../types.js';
 
 const MIME: Record<string, string> = {
   '.html': 'text/html; charset=utf-8',
@@ -37,9 +40,10 @@ function setCachingHeaders(res: http.ServerResponse, stat: fs.Stats) {
   res.setHeader('Cache-Control', 'public, max-age=0, must-revalidate');
 }
 
-export default async function preview(): Promise<void> {
+export default async function preview(opts: PreviewOptions = {}): Promise<void> {
   const cwd = process.cwd();
-  const config = await loadReactClientConfig(cwd);
+  const mode = opts.mode || 'production';
+  const config = await loadReactClientConfig(cwd, { command: 'preview', mode });
   const appRoot = path.resolve(cwd, config.root || '.');
   const outDir = path.join(appRoot, config.build?.outDir || 'dist');
   const indexHtml = path.join(outDir, 'index.html');
@@ -56,6 +60,7 @@ export default async function preview(): Promise<void> {
   }
 
   const defaultPort = Number(process.env.PORT) || config.server?.port || 4173;
+  const host = resolveHost(config.server?.host);
   const availablePort = await detectPort(defaultPort);
   const port = availablePort;
 
@@ -63,7 +68,8 @@ export default async function preview(): Promise<void> {
     console.log(chalk.yellow(`\n⚠️ Port ${defaultPort} is occupied. Using ${port} instead.`));
   }
 
-  const server = http.createServer(async (req, res) => {
+  const httpsOptions = await resolveHttpsOptions(config.server?.https, appRoot);
+  const server = createServer(async (req, res) => {
     try {
       const url = req.url || '/';
       // normalize and protect
@@ -147,14 +153,15 @@ export default async function preview(): Promise<void> {
       res.writeHead(500);
       res.end('Internal Server Error');
     }
-  });
+  }, httpsOptions);
 
-  server.listen(port, async () => {
-    const url = `http://localhost:${port}`;
+  server.listen(port, host, async () => {
+    const urls = getServerUrls(httpsOptions ? 'https' : 'http', host, port);
+    const url = urls.local;
     console.log(chalk.cyan.bold('\n🔎 react-client preview'));
     console.log(chalk.gray('────────────────────────'));
     console.log(chalk.green(`Serving: ${outDir}`));
-    console.log(chalk.green(`Open: ${url}`));
+    printServerUrls(urls);
     await open(url, { newInstance: true });
   });
 
@@ -7,11 +7,12 @@ import { Command } from 'commander';
 import { fileURLToPath, pathToFileURL } from 'url';
 
 import initCmd from './commands/init.js';
-import type { InitOptions } from './types';
+import type { BuildOptions, DevOptions, InitOptions, PreviewOptions } from './types';
 import devCmd from './commands/dev.js';
 import buildCmd from './commands/build.js';
 import previewCmd from './commands/preview.js';
 import generateCmd from './commands/generate.js';
+import { ConfigError } from '../utils/loadConfig.js';
 
 // Polyfill for __dirname in ESM
 const __filename = fileURLToPath(import.meta.url);
@@ -58,6 +59,19 @@ function showBanner(cmd?: string) {
   }
 }
 
+// ❌ Report command failures (broken config, etc.) and exit non-zero
+function handleCommandError(err: unknown) {
+  if (err instanceof ConfigError) {
+    console.error(chalk.red(`\n❌ ${err.message}`));
+    for (const detail of err.details) {
+      console.error(`  ${detail}`);
+    }
+  } else {
+    console.error(chalk.red('\n❌ Command failed:'), err instanceof Error ? err.message : err);
+  }
+  process.exit(1);
+}
+
 // 🧩 Commander setup
 const program = new Command();
 
@@ -82,26 +96,30 @@ program
 
 program
   .command('dev')
+  .option('-m, --mode <mode>', 'env mode (loads .env.[mode] files)')
+  .option('--force', 'rebuild the dependency prebundle cache')
   .description('start dev server (with React Fast Refresh)')
-  .action(() => {
+  .action((opts: DevOptions) => {
     showBanner('dev');
-    devCmd();
+    devCmd(opts).catch(handleCommandError);
   });
 
 program
   .command('build')
+  .option('-m, --mode <mode>', 'env mode (loads .env.[mode] files)')
   .description('build production assets')
-  .action(() => {
+  .action((opts: BuildOptions) => {
     showBanner('build');
-    buildCmd();
+    buildCmd(opts).catch(handleCommandError);
   });
 
 program
   .command('preview')
+  .option('-m, --mode <mode>', 'env mode (loads .env.[mode] files)')
   .description('preview production build')
-  .action(() => {
+  .action((opts: PreviewOptions) => {
     showBanner('preview');
-    previewCmd();
+    previewCmd(opts).catch(handleCommandError);
   });
 
 const generate = program
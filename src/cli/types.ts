@@ -3,4 +3,18 @@ export interface InitOptions {
   withConfig?: boolean;
 }
 
+export interface DevOptions {
+  mode?: string;
+  /** Rebuild the dependency prebundle even if its metadata matches */
+  force?: boolean;
+}
+
+export interface BuildOptions {
+  mode?: string;
+}
+
+export interface PreviewOptions {
+  mode?: string;
+}
+
 export default {} as const;
@@ -1,5 +1,32 @@
-import type { ReactClientConfig } from './utils/loadConfig';
+import type { ReactClientConfig, ReactClientConfigFn, UserConfigExport } from './types/config';
 
-export function defineConfig(config: ReactClientConfig) {
+export type {
+  ConfigCommand,
+  ConfigEnv,
+  ReactClientConfig,
+  ReactClientConfigFn,
+  UserConfigExport,
+} from './types/config';
+export type {
+  ReactClientPlugin,
+  DevServerContext,
+  PluginHotUpdateContext,
+  PluginTransformContext,
+} from './types/plugin';
+export type {
+  BroadcastMessage,
+  CustomEventMessage,
+  HMRMessage,
+  HMRClient,
+} from './server/broadcastManager';
+
+/**
+ * Type helper for react-client.config files.
+ * Accepts a plain object, a promise, or a `({ command, mode }) => config` function (sync or async).
+ */
+export function defineConfig(config: ReactClientConfig): ReactClientConfig;
+export function defineConfig(config: Promise<ReactClientConfig>): Promise<ReactClientConfig>;
+export function defineConfig(config: ReactClientConfigFn): ReactClientConfigFn;
+export function defineConfig(config: UserConfigExport): UserConfigExport {
   return config;
 }
@@ -1,2 +1,2 @@
-export const defineConfig = <T>(c: T): T => c;
+export * from './config';
 export * from './cli/index';
@@ -1,6 +1,7 @@
 import { WebSocketServer, WebSocket as NodeWebSocket } from 'ws';
 import http from 'http';
 import chalk from 'chalk';
+import type { ErrorPayload } from './errorPayload';
 
 /**
  * Base broadcast message that plugins may extend.
@@ -12,16 +13,104 @@ export interface BroadcastMessage {
   [key: string]: unknown;
 }
 
+/**
+ * One HMR boundary to re-import: `path` accepts the change to `acceptedPath`
+ * (the same module when it is self-accepting).
+ */
+export interface HMRUpdate {
+  path: string;
+  acceptedPath: string;
+  timestamp: number;
+}
+
 /**
  * Core HMR message shape — narrows `type` to known HMR events
  * and adds optional fields. It extends BroadcastMessage so it's
  * assignable to the generic constraint.
  */
 export interface HMRMessage extends BroadcastMessage {
-  type: 'update' | 'error' | 'reload';
+  type: 'update' | 'error' | 'reload' | 'prune' | 'custom';
   path?: string;
+  /** Boundaries found by the module graph; absent for plugin-sent updates */
+  updates?: HMRUpdate[];
+  /** `prune`: modules no longer imported by anything (their `hot.prune` callbacks run) */
+  paths?: string[];
   message?: string;
   stack?: string;
+  /** `error`: compile error details for the overlay (location, code frame, plugin) */
+  err?: ErrorPayload;
+  /** `custom`: namespaced event name, e.g. `my-plugin:event` */
+  event?: string;
+  /** `custom`: event payload */
+  data?: unknown;
+}
+
+/**
+ * A custom event sent either way over the HMR socket. Add these to the
+ * BroadcastManager message type to type event names and payloads:
+ * `BroadcastManager<HMRMessage | CustomEventMessage<'my-plugin:ping', { n: number }>>`.
+ */
+export interface CustomEventMessage<E extends string = string, D = unknown>
+  extends BroadcastMessage {
+  type: 'custom';
+  /** Namespaced as `<plugin>:<event>`; `react-client:` is reserved */
+  event: E;
+  data?: D;
+}
+
+type CustomMessages<T> = Extract<T, CustomEventMessage>;
+
+/** Event names declared by the custom messages in T (any name when it declares none) */
+export type CustomEventName<T> = [CustomMessages<T>] extends [never]
+  ? string
+  : CustomMessages<T>['event'];
+
+/** Payload type of custom event E in T */
+export type CustomEventData<T, E extends string> = [CustomMessages<T>] extends [never]
+  ? unknown
+  : Extract<CustomMessages<T>, { event: E }>['data'];
+
+/** One connected browser, as passed to custom event listeners */
+export interface HMRClient<T extends BroadcastMessage = HMRMessage> {
+  socket: NodeWebSocket;
+  /** Send a custom event to this client only */
+  send<E extends CustomEventName<T>>(event: E, data?: CustomEventData<T, E>): void;
+}
+
+export type CustomEventListener<T extends BroadcastMessage, E extends string> = (
+  data: CustomEventData<T, E>,
+  client: HMRClient<T>,
+) => void;
+
+const EVENT_NAME_RE = /^[\w@.-]+:[\w.:-]+$/;
+
+/** `origin` is the page at the request's Host (scheme aside) */
+export function isSameOrigin(origin: string, req: http.IncomingMessage): boolean {
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    // `null` (sandboxed iframes, file://) and other unparsable origins
+    return false;
+  }
+}
+
+export interface BroadcastManagerOptions {
+  /**
+   * Only take over upgrade requests this returns true for; others are left to
+   * other `upgrade` listeners (e.g. the dev server's WebSocket proxy).
+   */
+  filter?: (req: http.IncomingMessage) => boolean;
+  /**
+   * Whether a page from `origin` may connect. Browsers always send the page's Origin,
+   * so this keeps other sites from driving the socket; clients without one (not a
+   * browser) are let in. Default: same origin as the request's Host.
+   */
+  verifyOrigin?: (origin: string, req: http.IncomingMessage) => boolean;
+  /**
+   * Ping clients this often (ms); one that has not answered the previous ping
+   * is terminated. Default 30000, 0 disables.
+   */
+  heartbeatInterval?: number;
 }
 
 /**
@@ -29,14 +118,32 @@ export interface HMRMessage extends BroadcastMessage {
  * Generic over message type T which defaults to HMRMessage.
  */
 export class BroadcastManager<T extends BroadcastMessage = HMRMessage> {
-  private wss: WebSocketServer;
+  /** Underlying WebSocket server, exposed for plugins via DevServerContext */
+  readonly wss: WebSocketServer;
   private clients: Set<NodeWebSocket> = new Set();
+  private listeners = new Map<string, Set<CustomEventListener<T, string>>>();
+  /** Clients that answered the last heartbeat ping */
+  private alive = new WeakSet<NodeWebSocket>();
+  private heartbeat?: NodeJS.Timeout;
 
-  constructor(server: http.Server) {
-    this.wss = new WebSocketServer({ server });
+  constructor(server: http.Server, options: BroadcastManagerOptions = {}) {
+    this.wss = new WebSocketServer({ noServer: true });
+    server.on('upgrade', (req, socket, head) => {
+      if (options.filter && !options.filter(req)) return;
+      const { origin } = req.headers;
+      if (origin !== undefined && !(options.verifyOrigin ?? isSameOrigin)(origin, req)) {
+        socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.wss.emit('connection', ws, req));
+    });
 
     this.wss.on('connection', (ws: NodeWebSocket) => {
       this.clients.add(ws);
+      this.alive.add(ws);
+      ws.on('pong', () => this.alive.add(ws));
+
+      ws.on('message', (raw) => this.handleMessage(ws, raw.toString()));
 
       ws.on('close', () => {
         this.clients.delete(ws);
@@ -46,6 +153,28 @@ export class BroadcastManager<T extends BroadcastMessage = HMRMessage> {
         console.error(chalk.red('⚠️ WebSocket error:'), err.message);
       });
     });
+
+    const interval = options.heartbeatInterval ?? 30000;
+    if (interval > 0) {
+      this.heartbeat = setInterval(() => this.checkClients(), interval);
+      this.heartbeat.unref();
+    }
+  }
+
+  /**
+   * Drop clients that missed the last ping (sleeping laptops, dropped networks)
+   * and ping the rest.
+   */
+  private checkClients(): void {
+    for (const ws of this.clients) {
+      if (!this.alive.has(ws)) {
+        ws.terminate();
+        this.clients.delete(ws);
+        continue;
+      }
+      this.alive.delete(ws);
+      ws.ping();
+    }
   }
 
   broadcast(msg: T): void {
@@ -63,16 +192,73 @@ export class BroadcastManager<T extends BroadcastMessage = HMRMessage> {
     }
   }
 
+  /**
+   * Listen for a custom event sent by the browser (`import.meta.hot.send(event, data)`).
+   * Event names are namespaced: `my-plugin:event`.
+   */
+  on<E extends CustomEventName<T>>(event: E, listener: CustomEventListener<T, E>): void {
+    if (!EVENT_NAME_RE.test(event)) {
+      console.warn(
+        chalk.yellow(`⚠️ HMR event "${event}" is not namespaced; use "<plugin>:<event>".`),
+      );
+    }
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener as CustomEventListener<T, string>);
+    this.listeners.set(event, listeners);
+  }
+
+  off<E extends CustomEventName<T>>(event: E, listener: CustomEventListener<T, E>): void {
+    this.listeners.get(event)?.delete(listener as CustomEventListener<T, string>);
+  }
+
+  private handleMessage(ws: NodeWebSocket, raw: string): void {
+    let msg: Partial<CustomEventMessage>;
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (msg?.type !== 'custom' || typeof msg.event !== 'string' || !EVENT_NAME_RE.test(msg.event)) {
+      return;
+    }
+    const listeners = this.listeners.get(msg.event);
+    if (!listeners?.size) return;
+
+    const client: HMRClient<T> = {
+      socket: ws,
+      send: (event, data) => {
+        if (ws.readyState === NodeWebSocket.OPEN) {
+          ws.send(JSON.stringify({ type: 'custom', event, data }));
+        }
+      },
+    };
+    for (const listener of listeners) {
+      try {
+        listener(msg.data as CustomEventData<T, string>, client);
+      } catch (err) {
+        console.error(
+          chalk.red(`⚠️ HMR event "${msg.event}" listener failed:`),
+          (err as Error).message,
+        );
+      }
+    }
+  }
+
   getClientCount(): number {
     return this.clients.size;
   }
 
-  close(): void {
+  /**
+   * Close every client connection and the server.
+   * Pass code 1012 (Service Restart) to tell clients the server is coming back.
+   */
+  close(code?: number, reason?: string): void {
     console.log(chalk.red('🛑 Closing WebSocket connections...'));
+    clearInterval(this.heartbeat);
     this.wss.close();
     for (const ws of this.clients) {
       try {
-        ws.close();
+        ws.close(code, reason);
       } catch {
         // ignore
       }
@@ -0,0 +1,97 @@
+/**
+ * depsCache.ts — metadata for the prebundled dependency cache (.react-client/deps)
+ *
+ * `_metadata.json` records what the cache was built from: lockfile, config
+ * files, react-client version and the dep list. Startup reuses the cache while
+ * they all match; `browserHash` versions the served /@modules/ URLs.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs-extra';
+import { fileURLToPath } from 'url';
+
+export interface DepsMetadata {
+  lockfileHash: string;
+  configHash: string;
+  version: string;
+  deps: string[];
+  /** Appended to /@modules/ URLs as `?v=` so browsers can cache them as immutable */
+  browserHash: string;
+}
+
+const METADATA_FILE = '_metadata.json';
+const LOCKFILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lock', 'bun.lockb'];
+
+function hash(parts: (string | Buffer)[]): string {
+  const h = crypto.createHash('sha256');
+  for (const part of parts) h.update(part);
+  return h.digest('hex').slice(0, 8);
+}
+
+async function readIfExists(file: string): Promise<Buffer | string> {
+  return (await fs.pathExists(file)) ? fs.readFile(file) : '';
+}
+
+/**
+ * Hash the nearest lockfile (walking up for workspaces), falling back to package.json.
+ */
+async function hashLockfile(appRoot: string): Promise<string> {
+  for (let dir = appRoot; ; dir = path.dirname(dir)) {
+    for (const name of LOCKFILES) {
+      const file = path.join(dir, name);
+      if (await fs.pathExists(file)) return hash([name, await fs.readFile(file)]);
+    }
+    if (path.dirname(dir) === dir) break;
+  }
+  return hash([await readIfExists(path.join(appRoot, 'package.json'))]);
+}
+
+function readVersion(): string {
+  const pkgPath = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../package.json');
+  try {
+    return (fs.readJsonSync(pkgPath) as { version?: string }).version ?? '0.0.0';
+  } catch {
+    return '0.0.0';
+  }
+}
+
+/**
+ * Describe the cache that `deps` would produce right now.
+ */
+export async function createDepsMetadata(
+  appRoot: string,
+  configFiles: string[],
+  deps: Set<string>,
+): Promise<DepsMetadata> {
+  const lockfileHash = await hashLockfile(appRoot);
+  const configHash = hash(await Promise.all([...configFiles].sort().map(readIfExists)));
+  const version = readVersion();
+  const sortedDeps = [...deps].sort();
+  return {
+    lockfileHash,
+    configHash,
+    version,
+    deps: sortedDeps,
+    browserHash: hash([lockfileHash, configHash, version, sortedDeps.join('\n')]),
+  };
+}
+
+export async function readDepsMetadata(cacheDir: string): Promise<DepsMetadata | null> {
+  try {
+    return (await fs.readJson(path.join(cacheDir, METADATA_FILE))) as DepsMetadata;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeDepsMetadata(cacheDir: string, metadata: DepsMetadata): Promise<void> {
+  await fs.writeJson(path.join(cacheDir, METADATA_FILE), metadata, { spaces: 2 });
+}
+
+/**
+ * True when a cache built from `cached` can be reused for `current`.
+ */
+export function isDepsCacheValid(cached: DepsMetadata | null, current: DepsMetadata): boolean {
+  return !!cached && cached.browserHash === current.browserHash;
+}
@@ -0,0 +1,118 @@
+/**
+ * errorPayload.ts — turn dev transform/plugin errors into overlay payloads
+ *
+ * Reads the error location from the shapes esbuild, Sass, Less and PostCSS
+ * throw (or a generic `loc`) and adds a code frame around it.
+ */
+
+import fs from 'fs-extra';
+import { fileURLToPath } from 'url';
+
+/** What the browser overlay renders for a compile error */
+export interface ErrorPayload {
+  message: string;
+  stack?: string;
+  /** Plugin whose `onTransform` threw */
+  plugin?: string;
+  /** Absolute path of the file the error points at */
+  file?: string;
+  /** 1-based */
+  line?: number;
+  /** 1-based */
+  column?: number;
+  /** Source lines around the error, the error line marked with `>` and a caret */
+  frame?: string;
+}
+
+interface ErrorLocation {
+  file?: string;
+  line: number;
+  column: number;
+}
+
+type ThrownError = Error & {
+  errors?: { text: string; location?: { file: string; line: number; column: number } | null }[];
+  span?: { url?: URL | string; start: { line: number; column: number } };
+  sassMessage?: string;
+  line?: number;
+  column?: number;
+  filename?: string;
+  file?: string;
+  reason?: string;
+  loc?: { file?: string; line: number; column: number };
+};
+
+/** Location of the error (1-based line and column), from whichever tool threw it */
+function errorLocation(err: ThrownError): ErrorLocation | null {
+  // esbuild: first message, 1-based line, 0-based column; `<stdin>` for transform input
+  const location = err.errors?.[0]?.location;
+  if (location) {
+    const file = location.file === '<stdin>' ? undefined : location.file;
+    return { file, line: location.line, column: location.column + 1 };
+  }
+  // sass: 0-based span
+  if (err.span?.start) {
+    const url = err.span.url;
+    const file = url && String(url).startsWith('file:') ? fileURLToPath(url) : undefined;
+    return { file, line: err.span.start.line + 1, column: err.span.start.column + 1 };
+  }
+  if (err.loc) return { file: err.loc.file, line: err.loc.line, column: err.loc.column + 1 };
+  if (typeof err.line === 'number') {
+    // PostCSS CssSyntaxError: 1-based column; Less: 0-based column with `filename`
+    const column = err.reason !== undefined ? err.column ?? 1 : (err.column ?? 0) + 1;
+    return { file: err.file ?? err.filename, line: err.line, column };
+  }
+  return null;
+}
+
+function errorMessage(err: ThrownError): string {
+  return err.errors?.[0]?.text ?? err.sassMessage ?? err.reason ?? err.message ?? String(err);
+}
+
+/**
+ * Source lines around `line` with the error line marked and a caret under `column`.
+ */
+export function codeFrame(source: string, line: number, column: number): string {
+  const lines = source.split(/\r?\n/);
+  const start = Math.max(1, line - 2);
+  const end = Math.min(lines.length, line + 2);
+  const width = String(end).length;
+  const frame: string[] = [];
+  for (let n = start; n <= end; n++) {
+    const marker = n === line ? '>' : ' ';
+    frame.push(`${marker} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+    if (n === line) frame.push(`  ${' '.repeat(width)} | ${' '.repeat(Math.max(0, column - 1))}^`);
+  }
+  return frame.join('\n');
+}
+
+/**
+ * Build the overlay payload for an error thrown while serving `file`. `source` is
+ * the code that was being compiled, used for the frame when the error does not
+ * point at another file (e.g. a Sass partial).
+ */
+export async function createErrorPayload(
+  error: unknown,
+  opts: { file: string; source?: string; plugin?: string },
+): Promise<ErrorPayload> {
+  const err = (error instanceof Error ? error : new Error(String(error))) as ThrownError;
+  const payload: ErrorPayload = {
+    message: errorMessage(err),
+    stack: err.stack,
+    plugin: opts.plugin,
+    file: opts.file,
+  };
+
+  const loc = errorLocation(err);
+  if (!loc) return payload;
+  payload.line = loc.line;
+  payload.column = loc.column;
+
+  let source = opts.source;
+  if (loc.file && loc.file !== opts.file) {
+    payload.file = loc.file;
+    source = await fs.readFile(loc.file, 'utf8').catch(() => undefined);
+  }
+  if (source !== undefined) payload.frame = codeFrame(source, loc.line, loc.column);
+  return payload;
+}
@@ -0,0 +1,22 @@
+import path from 'path';
+
+// Keys and certificates, wherever they are kept
+const SENSITIVE_EXTENSIONS = new Set(['.pem', '.key', '.crt', '.cer', '.p12', '.pfx']);
+
+/** `file` is `dir` itself or anywhere below it */
+export function isInside(file: string, dir: string): boolean {
+  const relative = path.relative(dir, file);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Whether the dev server may send `file`: it must be inside `dir`, outside dot
+ * directories and not a dotfile (`.env`, `.npmrc`, `.react-client/certs`), and not
+ * a key or certificate, whatever it is requested as (`/.npmrc?raw`).
+ */
+export function isServable(file: string, dir: string): boolean {
+  const relative = path.relative(dir, file);
+  if (!relative || !isInside(file, dir)) return false;
+  if (relative.split(path.sep).some((segment) => segment.startsWith('.'))) return false;
+  return !SENSITIVE_EXTENSIONS.has(path.extname(file).toLowerCase());
+}
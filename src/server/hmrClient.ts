@@ -0,0 +1,210 @@
+/**
+ * hmrClient.ts — browser side of HMR, served to the page as /@runtime/hmr
+ *
+ * Connects to the dev server's WebSocket and applies updates through the
+ * `import.meta.hot` API: every module that uses it gets its own context from
+ * `window.__GET_HOT_CONTEXT__(path, depUrls)`, created once per execution.
+ */
+
+/**
+ * Client runtime source. `hmrClientConfig` is the JSON-encoded socket config
+ * (`{ host, port, protocol, path }`, all optional).
+ */
+export function createHmrClientRuntime(hmrClientConfig: string): string {
+  return `
+const hmrConfig = ${hmrClientConfig};
+
+// owner path -> accept callbacks ({ deps: urls, fn }) registered by its current execution
+const hotModules = new Map();
+const disposeMap = new Map();
+const pruneMap = new Map();
+// owner path -> \`hot.data\`, kept across updates
+const dataMap = new Map();
+// event -> callbacks, and per owner path the ones it added (dropped when it re-executes)
+const customListeners = new Map();
+const ownerListeners = new Map();
+
+function addListener(map, event, cb) {
+  const list = map.get(event) || [];
+  list.push(cb);
+  map.set(event, list);
+}
+function removeListener(map, event, cb) {
+  const list = map.get(event);
+  if (!list) return;
+  const i = list.indexOf(cb);
+  if (i > -1) list.splice(i, 1);
+  if (!list.length) map.delete(event);
+}
+function notifyListeners(event, data) {
+  (customListeners.get(event) || []).slice().forEach((cb) => cb(data));
+}
+
+function createHotContext(ownerPath, depUrls = {}) {
+  if (!dataMap.has(ownerPath)) dataMap.set(ownerPath, {});
+  // a re-executed module registers its callbacks and listeners again
+  hotModules.delete(ownerPath);
+  const stale = ownerListeners.get(ownerPath);
+  if (stale) stale.forEach((cbs, event) => cbs.forEach((cb) => removeListener(customListeners, event, cb)));
+  const listeners = new Map();
+  ownerListeners.set(ownerPath, listeners);
+
+  const resolveDep = (dep) => depUrls[dep] || new URL(dep, location.origin + ownerPath).pathname;
+  const acceptDeps = (deps, fn) => {
+    const mod = hotModules.get(ownerPath) || { callbacks: [] };
+    mod.callbacks.push({ deps, fn });
+    hotModules.set(ownerPath, mod);
+  };
+
+  return {
+    get data() {
+      return dataMap.get(ownerPath);
+    },
+    accept(deps, callback) {
+      if (typeof deps === "function" || !deps) {
+        acceptDeps([ownerPath], ([mod]) => deps && deps(mod));
+      } else if (typeof deps === "string") {
+        acceptDeps([resolveDep(deps)], ([mod]) => callback && callback(mod));
+      } else if (Array.isArray(deps)) {
+        acceptDeps(deps.map(resolveDep), callback || (() => {}));
+      }
+    },
+    dispose(cb) {
+      disposeMap.set(ownerPath, cb);
+    },
+    prune(cb) {
+      pruneMap.set(ownerPath, cb);
+    },
+    // enforced by the server: updates reaching a declining module reload the page
+    decline() {},
+    // the server re-runs the update from this module's importers
+    invalidate(message) {
+      console.debug("[hmr] " + ownerPath + " invalidated" + (message ? ": " + message : ""));
+      notifyListeners("react-client:invalidate", { path: ownerPath, message });
+      send("react-client:invalidate", { path: ownerPath, message });
+    },
+    send(event, data) {
+      send(event, data);
+    },
+    on(event, cb) {
+      addListener(customListeners, event, cb);
+      addListener(listeners, event, cb);
+    },
+    off(event, cb) {
+      removeListener(customListeners, event, cb);
+      removeListener(listeners, event, cb);
+    },
+  };
+}
+window.__GET_HOT_CONTEXT__ = createHotContext;
+
+// Dispose and re-import the accepted module; returns a function running the accept callbacks
+async function fetchUpdate({ path, acceptedPath, timestamp }) {
+  const mod = hotModules.get(path);
+  // the boundary no longer accepts (its accept call never ran)
+  if (!mod) return null;
+  const callbacks = mod.callbacks.filter(({ deps }) => deps.includes(acceptedPath));
+  const dispose = disposeMap.get(acceptedPath);
+  if (dispose) await dispose(dataMap.get(acceptedPath));
+  const newMod = await import(acceptedPath + "?t=" + timestamp);
+  return () => {
+    for (const { deps, fn } of callbacks) {
+      fn(deps.map((dep) => (dep === acceptedPath ? newMod : undefined)));
+    }
+  };
+}
+
+async function handleUpdate(msg) {
+  // updates sent by plugins name a single module, which must accept itself
+  const updates = msg.updates || [{ path: msg.path, acceptedPath: msg.path, timestamp: Date.now() }];
+  if (!msg.updates && !hotModules.has(msg.path)) return location.reload();
+  window.clearErrorOverlay?.();
+  notifyListeners("react-client:beforeUpdate", msg);
+  try {
+    const appliers = await Promise.all(updates.map(fetchUpdate));
+    appliers.forEach((apply) => apply && apply());
+    window.__REFRESH_RUNTIME__?.performReactRefresh();
+    notifyListeners("react-client:afterUpdate", msg);
+  } catch (err) {
+    // usually a compile error, which the server sends to the overlay; the next
+    // update retries, so there is nothing to reload
+    console.error("[hmr] update failed", err);
+    window.showErrorOverlay?.(err);
+  }
+}
+
+// updates are applied one message at a time, in order
+let queue = Promise.resolve();
+const hmrProtocol = hmrConfig.protocol || (location.protocol === "https:" ? "wss" : "ws");
+const hmrPort = hmrConfig.port || location.port;
+const socketUrl =
+  hmrProtocol + "://" + (hmrConfig.host || location.hostname) + (hmrPort ? ":" + hmrPort : "") + (hmrConfig.path || "/");
+
+// custom events to the server, held back until the socket is open
+const outbox = [];
+function send(event, data) {
+  const msg = JSON.stringify({ type: "custom", event, data });
+  if (ws.readyState === WebSocket.OPEN) ws.send(msg);
+  else outbox.push(msg);
+}
+
+function handleMessage(msg) {
+  if (msg.type === "custom") notifyListeners(msg.event, msg.data);
+  if (msg.type === "reload") {
+    notifyListeners("react-client:beforeFullReload", msg);
+    location.reload();
+  }
+  if (msg.type === "error") {
+    notifyListeners("react-client:error", msg);
+    window.showErrorOverlay?.(msg);
+  }
+  if (msg.type === "update") queue = queue.then(() => handleUpdate(msg));
+  if (msg.type === "prune") {
+    queue = queue.then(() => {
+      notifyListeners("react-client:prune", msg);
+      for (const path of msg.paths || []) pruneMap.get(path)?.(dataMap.get(path));
+    });
+  }
+}
+
+function showDisconnected() {
+  if (document.getElementById("__rc_hmr_disconnected")) return;
+  const badge = document.createElement("div");
+  badge.id = "__rc_hmr_disconnected";
+  badge.textContent = "Dev server disconnected, reconnecting…";
+  badge.style.cssText =
+    "position:fixed;bottom:12px;left:12px;z-index:2147483647;padding:6px 10px;border-radius:6px;" +
+    "background:#1f1f1f;color:#f5b942;font:12px/1.4 system-ui,sans-serif;box-shadow:0 2px 8px #0006";
+  document.body.appendChild(badge);
+}
+
+// The server is gone (restart, crash, sleep): retry with backoff, then reload once the
+// page itself is served again, since its modules may have changed meanwhile
+function reconnect(attempt = 0) {
+  const delay = Math.min(500 * 2 ** attempt, 5000);
+  setTimeout(() => {
+    const probe = new WebSocket(socketUrl);
+    probe.onopen = () => {
+      probe.close();
+      const ping = () => fetch("/", { method: "HEAD" }).then(() => location.reload(), () => setTimeout(ping, 500));
+      ping();
+    };
+    probe.onerror = () => reconnect(attempt + 1);
+  }, delay);
+}
+
+const ws = new WebSocket(socketUrl);
+ws.onopen = () => {
+  outbox.splice(0).forEach((msg) => ws.send(msg));
+};
+ws.onmessage = (e) => handleMessage(JSON.parse(e.data));
+ws.onclose = (e) => {
+  // 1012: the dev server is restarting (config/.env change); other clean closes are the
+  // page going away
+  if (e.wasClean && e.code !== 1012) return;
+  notifyListeners("react-client:disconnected", { code: e.code });
+  showDisconnected();
+  reconnect();
+};
+`;
+}
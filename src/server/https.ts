@@ -0,0 +1,79 @@
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import selfsigned from 'selfsigned';
+import type { HttpsConfig } from '../types/config';
+
+// Regenerate the cached self-signed cert well before its 365-day expiry
+const CERT_MAX_AGE_MS = 300 * 24 * 60 * 60 * 1000;
+
+async function selfSignedCert(appRoot: string): Promise<https.ServerOptions> {
+  const certDir = path.join(appRoot, '.react-client', 'certs');
+  const keyFile = path.join(certDir, 'localhost-key.pem');
+  const certFile = path.join(certDir, 'localhost-cert.pem');
+
+  if ((await fs.pathExists(keyFile)) && (await fs.pathExists(certFile))) {
+    const stat = await fs.stat(certFile);
+    if (Date.now() - stat.mtimeMs < CERT_MAX_AGE_MS) {
+      return { key: await fs.readFile(keyFile), cert: await fs.readFile(certFile) };
+    }
+  }
+
+  console.log(chalk.gray('🔐 Generating self-signed certificate for localhost...'));
+  const pems = selfsigned.generate([{ name: 'commonName', value: 'localhost' }], {
+    days: 365,
+    keySize: 2048,
+    algorithm: 'sha256',
+    extensions: [
+      { name: 'basicConstraints', cA: false },
+      { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+      { name: 'extKeyUsage', serverAuth: true },
+      {
+        name: 'subjectAltName',
+        altNames: [
+          { type: 2, value: 'localhost' },
+          { type: 7, ip: '127.0.0.1' },
+          { type: 7, ip: '::1' },
+        ],
+      },
+    ],
+  });
+  await fs.ensureDir(certDir);
+  await fs.writeFile(keyFile, pems.private, 'utf8');
+  await fs.writeFile(certFile, pems.cert, 'utf8');
+  console.log(
+    chalk.yellow('⚠️ Using a self-signed certificate; your browser will ask you to trust it.'),
+  );
+  return { key: pems.private, cert: pems.cert };
+}
+
+/**
+ * Turn `server.https` into TLS options: explicit key/cert paths (relative to the
+ * app root) or `true` for a cached self-signed localhost certificate.
+ */
+export async function resolveHttpsOptions(
+  config: HttpsConfig | undefined,
+  appRoot: string,
+): Promise<https.ServerOptions | null> {
+  if (!config) return null;
+  if (config === true) return selfSignedCert(appRoot);
+  const read = (file: string) => fs.readFile(path.resolve(appRoot, file));
+  return {
+    key: await read(config.key),
+    cert: await read(config.cert),
+    ...(config.ca ? { ca: await read(config.ca) } : {}),
+    ...(config.passphrase ? { passphrase: config.passphrase } : {}),
+  };
+}
+
+/**
+ * Create an HTTP or HTTPS server for the given handler.
+ */
+export function createServer(
+  handler: http.RequestListener,
+  httpsOptions: https.ServerOptions | null,
+): http.Server {
+  return httpsOptions ? https.createServer(httpsOptions, handler) : http.createServer(handler);
+}
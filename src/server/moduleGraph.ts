@@ -0,0 +1,212 @@
+/**
+ * moduleGraph.ts — server-side graph of the app modules the browser has loaded
+ *
+ * Built from the dev transform step (importers/imported per module) and used to
+ * find HMR boundaries: on change, walk up importers to the nearest module that
+ * accepts the update, and only fall back to a full reload at the entry.
+ */
+
+import path from 'path';
+
+export interface ModuleNode {
+  /** Absolute file path */
+  file: string;
+  /** URL the browser imports it by, e.g. `/src/App.tsx` */
+  url: string;
+  importers: Set<ModuleNode>;
+  imported: Set<ModuleNode>;
+  /** Calls `import.meta.hot.accept()` / is a React Refresh boundary */
+  isSelfAccepting: boolean;
+  /** Calls `import.meta.hot.decline()`: updates reaching it need a full reload */
+  isDeclined: boolean;
+  /** URLs of deps accepted via `import.meta.hot.accept(deps, cb)` */
+  acceptedDeps: Set<string>;
+  /** Absolute paths (without extension resolution) of imports that did not resolve yet */
+  unresolvedImports: Set<string>;
+  /** Directories (absolute, with a relative glob) whose matching files affect this module */
+  watchedDirs: { dir: string; match: RegExp }[];
+  /** Last HMR update touching this module; importers append `?t=` so browsers refetch */
+  lastHMRTimestamp: number;
+}
+
+export interface HMRBoundary {
+  /** Module that will be re-imported */
+  boundary: ModuleNode;
+  /** Module whose change it accepts (itself when self-accepting) */
+  acceptedVia: ModuleNode;
+}
+
+/**
+ * Convert a glob (`**`, `*`, `?`, `{a,b}`) relative to a directory into a RegExp.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i++;
+    } else if (ch === '*') source += '[^/]*';
+    else if (ch === '?') source += '[^/]';
+    else if (ch === '{') {
+      source += '(?:';
+      braces++;
+    } else if (ch === '}' && braces) {
+      source += ')';
+      braces--;
+    } else if (ch === ',' && braces) source += '|';
+    else source += ch.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export class ModuleGraph {
+  private byFile = new Map<string, ModuleNode>();
+
+  constructor(private readonly root: string) {}
+
+  getByFile(file: string): ModuleNode | undefined {
+    return this.byFile.get(file);
+  }
+
+  ensure(file: string): ModuleNode {
+    let node = this.byFile.get(file);
+    if (!node) {
+      node = {
+        file,
+        url: '/' + path.relative(this.root, file).replace(/\\/g, '/'),
+        importers: new Set(),
+        imported: new Set(),
+        isSelfAccepting: false,
+        isDeclined: false,
+        acceptedDeps: new Set(),
+        unresolvedImports: new Set(),
+        watchedDirs: [],
+        lastHMRTimestamp: 0,
+      };
+      this.byFile.set(file, node);
+    }
+    return node;
+  }
+
+  /**
+   * Replace a module's outgoing edges after it was (re)transformed. Returns the
+   * modules it no longer imports that are now imported by nothing (pruned).
+   */
+  updateModuleInfo(
+    node: ModuleNode,
+    imported: Set<string>,
+    info: {
+      isSelfAccepting: boolean;
+      isDeclined?: boolean;
+      acceptedDeps: Set<string>;
+      unresolvedImports: Set<string>;
+      watchedDirs?: { dir: string; glob: string }[];
+    },
+  ): ModuleNode[] {
+    const next = new Set([...imported].map((file) => this.ensure(file)));
+    const pruned: ModuleNode[] = [];
+    for (const prev of node.imported) {
+      if (next.has(prev)) continue;
+      prev.importers.delete(node);
+      if (!prev.importers.size) pruned.push(prev);
+    }
+    for (const dep of next) dep.importers.add(node);
+    node.imported = next;
+    node.isSelfAccepting = info.isSelfAccepting;
+    node.isDeclined = info.isDeclined ?? false;
+    node.acceptedDeps = info.acceptedDeps;
+    node.unresolvedImports = info.unresolvedImports;
+    node.watchedDirs = (info.watchedDirs ?? []).map(({ dir, glob }) => ({
+      dir: path.resolve(dir),
+      match: globToRegExp(glob),
+    }));
+    return pruned;
+  }
+
+  /**
+   * Modules with a watched directory glob matching `file` (e.g. Tailwind CSS for its content files).
+   */
+  findDirWatchers(file: string): ModuleNode[] {
+    return [...this.byFile.values()].filter((node) =>
+      node.watchedDirs.some(({ dir, match }) => {
+        const relative = path.relative(dir, file).replace(/\\/g, '/');
+        return !relative.startsWith('../') && match.test(relative);
+      }),
+    );
+  }
+
+  /**
+   * Modules that previously failed to import `file` (it did not exist yet).
+   */
+  findUnresolvedImporters(file: string): ModuleNode[] {
+    const noExt = file.slice(0, file.length - path.extname(file).length);
+    const candidates = new Set([file, noExt]);
+    if (path.basename(noExt) === 'index') candidates.add(path.dirname(file));
+    return [...this.byFile.values()].filter((node) =>
+      [...node.unresolvedImports].some((base) => candidates.has(base)),
+    );
+  }
+
+  /**
+   * Drop a deleted file; its importers are returned so they can be updated.
+   */
+  remove(file: string): ModuleNode[] {
+    const node = this.byFile.get(file);
+    if (!node) return [];
+    this.byFile.delete(file);
+    for (const dep of node.imported) dep.importers.delete(node);
+    const importers = [...node.importers];
+    for (const importer of importers) {
+      importer.imported.delete(node);
+      importer.unresolvedImports.add(file);
+    }
+    return importers;
+  }
+
+  /**
+   * Find the HMR boundaries for a changed module, stamping every module on the
+   * way with `timestamp`. Returns null when the update reaches a module nobody
+   * accepts for (the entry), meaning a full reload is needed.
+   */
+  propagateUpdate(node: ModuleNode, timestamp: number): HMRBoundary[] | null {
+    const boundaries: HMRBoundary[] = [];
+    const needsReload = this.propagate(node, timestamp, boundaries, new Set([node]));
+    return needsReload ? null : boundaries;
+  }
+
+  private propagate(
+    node: ModuleNode,
+    timestamp: number,
+    boundaries: HMRBoundary[],
+    chain: Set<ModuleNode>,
+  ): boolean {
+    node.lastHMRTimestamp = timestamp;
+
+    if (node.isDeclined) return true;
+    if (node.isSelfAccepting) {
+      boundaries.push({ boundary: node, acceptedVia: node });
+      return false;
+    }
+    // reached the entry (loaded from index.html) without finding a boundary
+    if (!node.importers.size) return true;
+
+    for (const importer of node.importers) {
+      if (importer.acceptedDeps.has(node.url)) {
+        importer.lastHMRTimestamp = timestamp;
+        boundaries.push({ boundary: importer, acceptedVia: node });
+        continue;
+      }
+      // circular imports cannot be hot-updated safely
+      if (chain.has(importer)) return true;
+      if (this.propagate(importer, timestamp, boundaries, new Set([...chain, importer]))) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,48 @@
+import os from 'os';
+import chalk from 'chalk';
+
+/**
+ * Map `server.host` to a listen address.
+ * `true` binds every interface; undefined keeps Node's default (all interfaces).
+ */
+export function resolveHost(host: string | boolean | undefined): string | undefined {
+  if (host === true) return '0.0.0.0';
+  if (!host) return undefined;
+  return host;
+}
+
+const WILDCARD_HOSTS = new Set([undefined, '0.0.0.0', '::', '0:0:0:0:0:0:0:0']);
+
+/**
+ * URLs the server can be reached on: a local URL, plus one per external IPv4
+ * interface when bound to every interface.
+ */
+export function getServerUrls(
+  protocol: 'http' | 'https',
+  host: string | undefined,
+  port: number,
+): { local: string; network: string[] } {
+  if (!WILDCARD_HOSTS.has(host)) {
+    const name = host!.includes(':') ? `[${host}]` : host;
+    return { local: `${protocol}://${name}:${port}`, network: [] };
+  }
+  const network: string[] = [];
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (address.family === 'IPv4' && !address.internal) {
+        network.push(`${protocol}://${address.address}:${port}`);
+      }
+    }
+  }
+  return { local: `${protocol}://localhost:${port}`, network };
+}
+
+/**
+ * Print the Local/Network URL lines of the startup banner.
+ */
+export function printServerUrls(urls: { local: string; network: string[] }): void {
+  console.log(chalk.green(`⚡ Local:   ${urls.local}`));
+  for (const url of urls.network) {
+    console.log(chalk.green(`🌐 Network: ${url}`));
+  }
+}
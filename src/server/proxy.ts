@@ -0,0 +1,144 @@
+import http from 'http';
+import https from 'https';
+import type { Duplex } from 'stream';
+import type { NextHandleFunction } from 'connect';
+import chalk from 'chalk';
+import type { ProxyOptions } from '../types/config';
+
+interface ProxyRule {
+  context: string;
+  match: (url: string) => boolean;
+  options: ProxyOptions;
+}
+
+/**
+ * Normalize `server.proxy` into ordered rules.
+ * Keys starting with `^` are regular expressions, everything else is a path prefix.
+ */
+export function createProxyRules(proxy: Record<string, string | ProxyOptions> = {}): ProxyRule[] {
+  return Object.entries(proxy).map(([context, value]) => {
+    const options = typeof value === 'string' ? { target: value } : value;
+    const re = context.startsWith('^') ? new RegExp(context) : null;
+    return {
+      context,
+      match: (url: string) => (re ? re.test(url) : url.startsWith(context)),
+      options,
+    };
+  });
+}
+
+export function findProxyRule(rules: ProxyRule[], url: string): ProxyRule | undefined {
+  return rules.find((rule) => rule.match(url));
+}
+
+function buildRequestOptions(
+  req: http.IncomingMessage,
+  options: ProxyOptions,
+): { target: URL; requestOptions: https.RequestOptions } {
+  const target = new URL(options.target);
+  const url = req.url ?? '/';
+  const rewritten = options.rewrite ? options.rewrite(url) : url;
+  const headers: http.OutgoingHttpHeaders = { ...req.headers, ...options.headers };
+  if (options.changeOrigin) headers.host = target.host;
+  return {
+    target,
+    requestOptions: {
+      protocol: target.protocol,
+      hostname: target.hostname,
+      port: target.port || (target.protocol === 'https:' ? 443 : 80),
+      method: req.method,
+      path: target.pathname.replace(/\/$/, '') + rewritten,
+      headers,
+      rejectUnauthorized: options.secure !== false,
+    },
+  };
+}
+
+function request(target: URL, opts: https.RequestOptions): http.ClientRequest {
+  return target.protocol === 'https:' ? https.request(opts) : http.request(opts);
+}
+
+/**
+ * Connect middleware forwarding matching requests to `server.proxy` targets.
+ */
+export function createProxyMiddleware(rules: ProxyRule[]): NextHandleFunction {
+  return (req, res, next) => {
+    const rule = findProxyRule(rules, req.url ?? '');
+    if (!rule) return next();
+
+    let proxyReq: http.ClientRequest;
+    try {
+      const { target, requestOptions } = buildRequestOptions(req, rule.options);
+      proxyReq = request(target, requestOptions);
+    } catch (err) {
+      // invalid target or a throwing rewrite()
+      console.error(chalk.red(`⚠️ Proxy error (${req.url}):`), (err as Error).message);
+      res.writeHead(502, { 'Content-Type': 'text/plain' });
+      return res.end(`Proxy error: ${(err as Error).message}`);
+    }
+
+    proxyReq.on('response', (proxyRes) => {
+      res.writeHead(proxyRes.statusCode ?? 502, proxyRes.headers);
+      proxyRes.pipe(res);
+    });
+    proxyReq.on('error', (err) => {
+      console.error(
+        chalk.red(`⚠️ Proxy error (${req.url} → ${rule.options.target}):`),
+        err.message,
+      );
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'text/plain' });
+      }
+      res.end(`Proxy error: ${err.message}`);
+    });
+    req.pipe(proxyReq);
+  };
+}
+
+/**
+ * Forward WebSocket upgrades for rules with `ws: true`.
+ * Returns true when the upgrade was taken over by the proxy.
+ */
+export function proxyUpgrade(
+  rules: ProxyRule[],
+  req: http.IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+): boolean {
+  const rule = findProxyRule(rules, req.url ?? '');
+  if (!rule?.options.ws) return false;
+
+  // runs inside the server's `upgrade` listener, where a throw would crash the dev server
+  let proxyReq: http.ClientRequest;
+  try {
+    const { target, requestOptions } = buildRequestOptions(req, rule.options);
+    proxyReq = request(target, requestOptions);
+  } catch (err) {
+    console.error(chalk.red(`⚠️ WebSocket proxy error (${req.url}):`), (err as Error).message);
+    socket.destroy();
+    return true;
+  }
+
+  proxyReq.on('upgrade', (proxyRes, proxySocket, proxyHead) => {
+    const lines = [`HTTP/1.1 ${proxyRes.statusCode} ${proxyRes.statusMessage}`];
+    for (let i = 0; i < proxyRes.rawHeaders.length; i += 2) {
+      lines.push(`${proxyRes.rawHeaders[i]}: ${proxyRes.rawHeaders[i + 1]}`);
+    }
+    socket.write(lines.join('\r\n') + '\r\n\r\n');
+    if (proxyHead.length) socket.write(proxyHead);
+    if (head.length) proxySocket.write(head);
+    proxySocket.pipe(socket).pipe(proxySocket);
+    proxySocket.on('error', () => socket.destroy());
+    socket.on('error', () => proxySocket.destroy());
+  });
+  proxyReq.on('response', (proxyRes) => {
+    // target refused the upgrade — relay its answer and close
+    socket.end(`HTTP/1.1 ${proxyRes.statusCode} ${proxyRes.statusMessage}\r\n\r\n`);
+  });
+  proxyReq.on('error', (err) => {
+    console.error(chalk.red(`⚠️ WebSocket proxy error (${req.url}):`), err.message);
+    socket.destroy();
+  });
+  proxyReq.end();
+  return true;
+}
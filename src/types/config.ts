@@ -0,0 +1,175 @@
+import type { ReactClientPlugin } from './plugin';
+
+/** CLI command the config is being resolved for */
+export type ConfigCommand = 'dev' | 'build' | 'preview';
+
+/**
+ * Passed to a function-form config so one file can branch per command/mode.
+ */
+export interface ConfigEnv {
+  command: ConfigCommand;
+  /** `development` for dev, `production` for build/preview */
+  mode: string;
+}
+
+/**
+ * A `server.proxy` entry, e.g. `{ '/api': { target: 'http://localhost:8080', changeOrigin: true } }`
+ */
+export interface ProxyOptions {
+  /** Backend URL requests are forwarded to */
+  target: string;
+  /** Rewrite the Host header to match the target */
+  changeOrigin?: boolean;
+  /** Rewrite the request path before forwarding, e.g. `(p) => p.replace(/^\/api/, '')` */
+  rewrite?: (path: string) => string;
+  /** Also forward WebSocket upgrades */
+  ws?: boolean;
+  /** Verify the target's TLS certificate (default: true) */
+  secure?: boolean;
+  /** Extra headers added to proxied requests */
+  headers?: Record<string, string>;
+}
+
+/**
+ * `server.https`: `true` for a generated self-signed localhost certificate,
+ * or paths (relative to the app root) to your own key and certificate.
+ */
+export type HttpsConfig =
+  | boolean
+  | {
+      key: string;
+      cert: string;
+      ca?: string;
+      passphrase?: string;
+    };
+
+/**
+ * `server.hmr`: where the browser's HMR client connects. Useful behind Docker
+ * port mapping or a reverse proxy.
+ */
+export interface HmrOptions {
+  /** Hostname the browser connects to (default: the page's hostname) */
+  host?: string;
+  /** Run the HMR WebSocket on its own port instead of sharing the dev server's */
+  port?: number;
+  /** Port the browser connects to, if it differs from `port` (e.g. a mapped port) */
+  clientPort?: number;
+  /** `ws` or `wss` (default: matches the page protocol) */
+  protocol?: 'ws' | 'wss';
+  /** Only accept HMR connections on this path */
+  path?: string;
+}
+
+/**
+ * `css.modules`: how `*.module.css` class names are scoped and exported.
+ */
+export interface CssModulesOptions {
+  /**
+   * Scoped class name pattern using `[name]` (file name), `[local]` (class name)
+   * and `[hash]` / `[hash:N]`, or a function (default: `[name]_[local]_[hash:5]`)
+   */
+  generateScopedName?: string | ((local: string, filename: string) => string);
+  /** Export keys for class names: as written, camelCased, or with only dashes converted */
+  localsConvention?: 'asIs' | 'camelCase' | 'camelCaseOnly' | 'dashes' | 'dashesOnly';
+}
+
+/**
+ * Options for one stylesheet preprocessor, passed through to its compiler
+ * (`sass`, `less` or `stylus`, resolved from the app's own dependencies).
+ */
+export interface PreprocessorOptions {
+  /** Code prepended to every file, e.g. `@use "src/styles/vars" as *;` */
+  additionalData?: string | ((source: string, filename: string) => string);
+  [option: string]: unknown;
+}
+
+/**
+ * Inline PostCSS config, same shape as a `postcss.config.js` export: `plugins` as
+ * plugin instances (or a `{ name: options }` map), other keys are process options.
+ */
+export interface PostcssOptions {
+  plugins?: unknown[] | Record<string, unknown>;
+  [option: string]: unknown;
+}
+
+/**
+ * `css`: stylesheet handling shared by dev and build.
+ */
+export interface CssOptions {
+  /** CSS Modules (`*.module.css`, `*.module.scss`, ...) options */
+  modules?: CssModulesOptions;
+  /** Per-language preprocessor options */
+  preprocessorOptions?: {
+    scss?: PreprocessorOptions;
+    sass?: PreprocessorOptions;
+    less?: PreprocessorOptions;
+    stylus?: PreprocessorOptions;
+  };
+  /** PostCSS config used instead of the app's postcss.config.* */
+  postcss?: PostcssOptions;
+}
+
+/**
+ * User configuration for React Client
+ */
+export interface ReactClientConfig {
+  /** Root directory of the project (defaults to `.`) */
+  root?: string;
+
+  /** Development server options */
+  server?: {
+    /** Server port (default: 2202) */
+    port?: number;
+
+    /** Automatically open the browser window when the server starts */
+    open?: boolean;
+
+    /** Host to listen on; `true` listens on all addresses (0.0.0.0) */
+    host?: string | boolean;
+
+    /** HMR WebSocket connection options */
+    hmr?: HmrOptions;
+
+    /** Serve over HTTPS (HMR then uses wss://) */
+    https?: HttpsConfig;
+
+    /**
+     * Forward matching requests to another server. Keys are path prefixes,
+     * or regular expressions when they start with `^`.
+     */
+    proxy?: Record<string, string | ProxyOptions>;
+  };
+
+  /** Build configuration */
+  build?: {
+    /** Output directory for builds */
+    outDir?: string;
+    /** Imported assets smaller than this (bytes) are inlined as data URIs (default: 4096, 0 disables) */
+    assetsInlineLimit?: number;
+  };
+
+  /** Extra file types imported as assets: extensions (`.gltf`) or path RegExps */
+  assetsInclude?: string | RegExp | (string | RegExp)[];
+
+  /** CSS options */
+  css?: CssOptions;
+
+  /** Module resolution options */
+  resolve?: {
+    /**
+     * Import aliases, e.g. `{ '@': './src' }` maps `@/components/Button` to `./src/components/Button`.
+     * `compilerOptions.paths` from tsconfig.json are applied automatically.
+     */
+    alias?: Record<string, string>;
+  };
+
+  /** Registered plugins */
+  plugins?: ReactClientPlugin[];
+}
+
+export type ReactClientConfigFn = (
+  env: ConfigEnv,
+) => ReactClientConfig | Promise<ReactClientConfig>;
+
+/** Anything a react-client.config file may default-export */
+export type UserConfigExport = ReactClientConfig | Promise<ReactClientConfig> | ReactClientConfigFn;
@@ -0,0 +1,41 @@
+import type { Server as ConnectServer } from 'connect';
+import type { WebSocketServer } from 'ws';
+import type { Server } from 'http';
+import type { BroadcastManager, BroadcastMessage, HMRMessage } from '../server/broadcastManager';
+
+export interface DevServerContext<T extends BroadcastMessage = HMRMessage> {
+  root: string;
+  outDir: string;
+  app: ConnectServer;
+  wss: WebSocketServer;
+  httpServer: Server;
+  broadcast: (msg: T) => void;
+  /** Custom events from the browser (`ws.on('my-plugin:event', (data, client) => ...)`) */
+  ws: Pick<BroadcastManager<T>, 'on' | 'off' | 'broadcast' | 'send'>;
+}
+
+export interface PluginHotUpdateContext<T extends BroadcastMessage = HMRMessage> {
+  broadcast: (msg: T) => void;
+}
+
+export interface PluginTransformContext {
+  /** Report a file the output depends on (e.g. a Sass partial) so editing it updates `id` */
+  addWatchFile(file: string): void;
+  /** Report a directory whose files matching `glob` affect the output (e.g. Tailwind content) */
+  addWatchDir(dir: string, glob: string): void;
+}
+
+export interface ReactClientPlugin<T extends BroadcastMessage = HMRMessage> {
+  name: string;
+  version?: string;
+  onTransform?(code: string, id: string, ctx: PluginTransformContext): Promise<string> | string;
+  onModuleResolve?(id: string, importer: string): Promise<string | null> | string | null;
+  onServe?(ctx: DevServerContext<T>): void | Promise<void>;
+  onHotUpdate?(file: string, ctx: PluginHotUpdateContext<T>): void | Promise<void>;
+  onServerStart?(ctx: DevServerContext<T>): void | Promise<void>;
+}
+
+/**
+ * @deprecated use `ReactClientConfig` — kept so existing plugins keep compiling
+ */
+export type { ReactClientConfig as ReactClientUserConfig } from './config';
@@ -0,0 +1,166 @@
+/**
+ * alias.ts — path alias resolution shared by dev and build
+ *
+ * Rules come from `resolve.alias` in react-client.config and from
+ * `compilerOptions.paths` / `baseUrl` in the app's tsconfig.json (or jsconfig.json).
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import type { Plugin } from 'esbuild';
+
+export interface AliasRule {
+  /** Exact specifier, or a pattern with a single `*` wildcard */
+  find: string;
+  /** Replacements; `*` is substituted with the wildcard match */
+  targets: string[];
+  /** tsconfig rules only apply when the target file exists */
+  strict: boolean;
+}
+
+const RESOLVE_EXTS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.json', '.css'];
+
+// Strip // and /* */ comments (outside strings) and trailing commas from tsconfig JSON
+function parseJsonc(src: string): Record<string, unknown> {
+  const stripped = src
+    .replace(/\\"|"(?:\\"|[^"])*"|(\/\/.*|\/\*[\s\S]*?\*\/)/g, (m, comment) => (comment ? '' : m))
+    .replace(/,(\s*[}\]])/g, '$1');
+  return JSON.parse(stripped) as Record<string, unknown>;
+}
+
+interface TsPaths {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+}
+
+// Read compilerOptions.baseUrl/paths, following relative `extends`
+async function readTsPaths(file: string, seen = new Set<string>()): Promise<TsPaths> {
+  if (seen.has(file) || !(await fs.pathExists(file))) return {};
+  seen.add(file);
+  let json: Record<string, unknown>;
+  try {
+    json = parseJsonc(await fs.readFile(file, 'utf8'));
+  } catch {
+    return {};
+  }
+  const dir = path.dirname(file);
+  let inherited: TsPaths = {};
+  if (typeof json.extends === 'string' && json.extends.startsWith('.')) {
+    const base = path.resolve(dir, json.extends);
+    inherited = await readTsPaths(base.endsWith('.json') ? base : `${base}.json`, seen);
+  }
+  const opts = (json.compilerOptions ?? {}) as Record<string, unknown>;
+  return {
+    baseUrl: typeof opts.baseUrl === 'string' ? path.resolve(dir, opts.baseUrl) : inherited.baseUrl,
+    paths: (opts.paths as Record<string, string[]> | undefined) ?? inherited.paths,
+  };
+}
+
+/**
+ * Collect alias rules for an app. Config aliases take priority over tsconfig paths.
+ */
+export async function loadAliases(
+  appRoot: string,
+  alias: Record<string, string> = {},
+): Promise<AliasRule[]> {
+  const rules: AliasRule[] = [];
+
+  for (const [find, replacement] of Object.entries(alias)) {
+    const target =
+      replacement.startsWith('.') || path.isAbsolute(replacement)
+        ? path.resolve(appRoot, replacement)
+        : replacement;
+    rules.push({ find, targets: [target], strict: false });
+    rules.push({ find: `${find}/*`, targets: [`${target}/*`], strict: false });
+  }
+
+  for (const name of ['tsconfig.json', 'jsconfig.json']) {
+    const file = path.join(appRoot, name);
+    if (!(await fs.pathExists(file))) continue;
+    const { baseUrl, paths } = await readTsPaths(file);
+    const base = baseUrl ?? appRoot;
+    for (const [find, targets] of Object.entries(paths ?? {})) {
+      rules.push({ find, targets: targets.map((t) => path.resolve(base, t)), strict: true });
+    }
+    break;
+  }
+
+  // Most specific (longest prefix before the wildcard) wins, as in TypeScript
+  return rules.sort((a, b) => b.find.split('*')[0].length - a.find.split('*')[0].length);
+}
+
+function matchRule(id: string, rule: AliasRule): string | null {
+  const star = rule.find.indexOf('*');
+  if (star === -1) return id === rule.find ? '' : null;
+  const prefix = rule.find.slice(0, star);
+  const suffix = rule.find.slice(star + 1);
+  if (!id.startsWith(prefix) || !id.endsWith(suffix) || id.length < prefix.length + suffix.length) {
+    return null;
+  }
+  return id.slice(prefix.length, id.length - suffix.length);
+}
+
+// Resolve an absolute path to a real file, trying extensions and index files
+function resolveFile(base: string): string | null {
+  const candidates = [
+    base,
+    ...RESOLVE_EXTS.map((ext) => base + ext),
+    ...RESOLVE_EXTS.map((ext) => path.join(base, `index${ext}`)),
+  ];
+  for (const candidate of candidates) {
+    try {
+      if (fs.statSync(candidate).isFile()) return candidate;
+    } catch {
+      // try next
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve an import specifier through the alias rules.
+ * Returns an absolute file path, a bare module id (for package aliases), or null.
+ */
+export function resolveAlias(id: string, rules: AliasRule[]): string | null {
+  for (const rule of rules) {
+    const match = matchRule(id, rule);
+    if (match === null) continue;
+    for (const target of rule.targets) {
+      const replaced = target.replace('*', match);
+      if (!path.isAbsolute(replaced)) return replaced;
+      const file = resolveFile(replaced);
+      if (file) return file;
+      if (!rule.strict) return replaced;
+    }
+  }
+  return null;
+}
+
+/**
+ * esbuild plugin applying the same alias rules in production builds.
+ */
+export function aliasEsbuildPlugin(rules: AliasRule[]): Plugin {
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const prefixes = [...new Set(rules.map((r) => r.find.split('*')[0]))];
+  return {
+    name: 'react-client-alias',
+    setup(build) {
+      if (!prefixes.length) return;
+      const filter = new RegExp(`^(${prefixes.map(escape).join('|')})`);
+      build.onResolve({ filter }, async (args) => {
+        if (args.pluginData?.reactClientAliased) return null;
+        const resolved = resolveAlias(args.path, rules);
+        if (!resolved) return null;
+        if (path.isAbsolute(resolved)) return { path: resolved };
+        const result = await build.resolve(resolved, {
+          kind: args.kind,
+          importer: args.importer,
+          resolveDir: args.resolveDir,
+          pluginData: { reactClientAliased: true },
+        });
+        if (result.errors.length) return { errors: result.errors };
+        return { path: result.path, external: result.external };
+      });
+    },
+  };
+}
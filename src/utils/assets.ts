@@ -0,0 +1,170 @@
+/**
+ * assets.ts — static asset imports shared by dev and build
+ *
+ * Plain imports of asset files give their URL. Suffixes pick another form:
+ * `?url` (always a URL), `?raw` (file contents as a string) and `?inline`
+ * (base64 data URI). In `build`, small assets are inlined and the rest are
+ * emitted to `assets/` with a content hash in the name.
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import type { Plugin } from 'esbuild';
+import type { ReactClientConfig } from '../types/config';
+
+export type AssetQuery = 'url' | 'raw' | 'inline';
+
+export type AssetsInclude = NonNullable<ReactClientConfig['assetsInclude']>;
+
+/** Assets inlined as data URIs in `build` when smaller than this (bytes) */
+export const DEFAULT_ASSETS_INLINE_LIMIT = 4096;
+
+export const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.js': 'application/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.jfif': 'image/jpeg',
+  '.pjpeg': 'image/jpeg',
+  '.pjp': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.bmp': 'image/bmp',
+  '.apng': 'image/apng',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.ogg': 'audio/ogg',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+  '.aac': 'audio/aac',
+  '.opus': 'audio/opus',
+  '.m4a': 'audio/mp4',
+  '.mov': 'video/quicktime',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.eot': 'application/vnd.ms-fontobject',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.wasm': 'application/wasm',
+  '.pdf': 'application/pdf',
+  '.webmanifest': 'application/manifest+json',
+};
+
+const ASSET_EXTENSIONS = new Set([
+  ...Object.keys(MIME_TYPES).filter((ext) => !['.html', '.js', '.css', '.json'].includes(ext)),
+]);
+
+// also an esbuild filter, so no lookarounds (Go regexp)
+const ASSET_QUERY_RE = /[?&](url|raw|inline)(?:&|$)/;
+
+export function mimeType(file: string): string {
+  return MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+}
+
+/** The `?url` / `?raw` / `?inline` suffix of an import, if any */
+export function assetQuery(id: string): AssetQuery | null {
+  const query = id.includes('?') ? id.slice(id.indexOf('?')) : '';
+  return (ASSET_QUERY_RE.exec(query)?.[1] as AssetQuery | undefined) ?? null;
+}
+
+/**
+ * Matcher for files imported as assets: the built-in types plus `assetsInclude`
+ * (extensions like `.gltf`, or RegExps tested against the path).
+ */
+export function createAssetMatcher(assetsInclude: AssetsInclude = []): (file: string) => boolean {
+  const extra = Array.isArray(assetsInclude) ? assetsInclude : [assetsInclude];
+  const extensions = new Set(ASSET_EXTENSIONS);
+  const patterns: RegExp[] = [];
+  for (const entry of extra) {
+    if (entry instanceof RegExp) patterns.push(entry);
+    else extensions.add((entry.startsWith('.') ? entry : `.${entry}`).toLowerCase());
+  }
+  return (file) => {
+    const clean = file.split('?')[0];
+    return (
+      extensions.has(path.extname(clean).toLowerCase()) || patterns.some((re) => re.test(clean))
+    );
+  };
+}
+
+export function toDataUri(content: Buffer, file: string): string {
+  return `data:${mimeType(file)};base64,${content.toString('base64')}`;
+}
+
+/**
+ * JS module for a `?raw` or `?inline` import.
+ */
+export async function assetQueryModule(file: string, query: 'raw' | 'inline'): Promise<string> {
+  const value =
+    query === 'raw' ? await fs.readFile(file, 'utf8') : toDataUri(await fs.readFile(file), file);
+  return `export default ${JSON.stringify(value)};`;
+}
+
+/**
+ * Build-time asset handling. Needs `assetNames` and `publicPath` set on the build
+ * for the emitted file names/URLs.
+ */
+export function assetsEsbuildPlugin(
+  isAsset: (file: string) => boolean,
+  inlineLimit = DEFAULT_ASSETS_INLINE_LIMIT,
+): Plugin {
+  return {
+    name: 'react-client-assets',
+    setup(build) {
+      build.onResolve({ filter: ASSET_QUERY_RE }, async (args) => {
+        const query = assetQuery(args.path);
+        if (!query) return null;
+        const result = await build.resolve(args.path.split('?')[0], {
+          kind: args.kind,
+          importer: args.importer,
+          resolveDir: args.resolveDir,
+        });
+        if (result.errors.length) return { errors: result.errors };
+        // the suffix keeps `x?raw` and `x?url` apart as separate modules
+        return { path: result.path, namespace: 'asset-query', suffix: `?${query}` };
+      });
+
+      build.onLoad({ filter: /.*/, namespace: 'asset-query' }, async (args) => {
+        const query = assetQuery(args.suffix) ?? 'url';
+        if (query === 'url') {
+          // emitted like any other asset, just never inlined
+          return {
+            contents: `export { default } from ${JSON.stringify(`${args.path}?asset-url`)};`,
+            loader: 'js',
+            resolveDir: path.dirname(args.path),
+          };
+        }
+        return {
+          contents: await assetQueryModule(args.path, query),
+          loader: 'js',
+          watchFiles: [args.path],
+        };
+      });
+
+      build.onResolve({ filter: /\?asset-url$/ }, (args) => ({
+        path: args.path.replace(/\?asset-url$/, ''),
+        namespace: 'asset-url',
+      }));
+      build.onLoad({ filter: /.*/, namespace: 'asset-url' }, async (args) => ({
+        contents: await fs.readFile(args.path),
+        loader: 'file',
+        watchFiles: [args.path],
+      }));
+
+      // plain imports (JS `import logo from './logo.png'`, CSS `url(./font.woff2)`)
+      build.onLoad({ filter: /.*/, namespace: 'file' }, async (args) => {
+        if (!isAsset(args.path)) return null;
+        const contents = await fs.readFile(args.path);
+        return { contents, loader: contents.length < inlineLimit ? 'dataurl' : 'file' };
+      });
+    },
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * cjsExports.ts — static export detection for dependency entry files
+ *
+ * Finds the named exports of a CommonJS module with cjs-module-lexer, following
+ * `module.exports = require(...)` re-exports (e.g. React's production/development
+ * switch), without executing any package code. ESM files are read with
+ * es-module-lexer instead.
+ *
+ * Detection cannot see every export (UMD builds, `module.exports = factory()`), so
+ * CommonJS proxies also export `module.exports` itself and named imports of them are
+ * rewritten at the import site (see `interopCjsImports` in moduleLexer.ts).
+ */
+
+import { createRequire } from 'module';
+import fs from 'fs-extra';
+import { init as initCjs, parse as parseCjs } from 'cjs-module-lexer';
+import { init as initEsm, parse as parseEsm } from 'es-module-lexer';
+
+export interface ModuleExports {
+  format: 'esm' | 'cjs';
+  /** Export names, excluding `default` */
+  names: string[];
+  /** ESM only: whether the module has a default export */
+  hasDefault: boolean;
+}
+
+/** Export of CommonJS dependency proxies holding the raw `module.exports` */
+export const CJS_MODULE_EXPORT = '__cjsModule';
+
+/**
+ * Detect the format and exports of `file`. Unparseable files are treated as
+ * CommonJS with no detectable named exports (default import only).
+ */
+export async function detectExports(file: string): Promise<ModuleExports> {
+  const code = await fs.readFile(file, 'utf8');
+  await initEsm;
+  try {
+    const [, exports, , hasModuleSyntax] = parseEsm(code);
+    if (hasModuleSyntax) {
+      const names = exports.map((e) => e.n);
+      return {
+        format: 'esm',
+        names: names.filter((n) => n !== 'default'),
+        hasDefault: names.includes('default'),
+      };
+    }
+  } catch {
+    // not valid ESM — fall through to the CommonJS lexer
+  }
+  const names = new Set<string>();
+  await collectCjsExports(file, code, names, new Set());
+  names.delete('default');
+  names.delete('__esModule');
+  return { format: 'cjs', names: [...names], hasDefault: true };
+}
+
+async function collectCjsExports(
+  file: string,
+  code: string,
+  names: Set<string>,
+  seen: Set<string>,
+): Promise<void> {
+  if (seen.has(file)) return;
+  seen.add(file);
+  await initCjs();
+
+  let result: { exports: string[]; reexports: string[] };
+  try {
+    result = parseCjs(code);
+  } catch {
+    return;
+  }
+  for (const name of result.exports) names.add(name);
+
+  // Resolving a re-export only reads package.json files; nothing is executed
+  const localRequire = createRequire(file);
+  for (const spec of result.reexports) {
+    try {
+      const target = localRequire.resolve(spec);
+      const targetCode = await fs.readFile(target, 'utf8');
+      await collectCjsExports(target, targetCode, names, seen);
+    } catch {
+      // builtins or unresolvable re-exports contribute nothing
+    }
+  }
+}
+
+/**
+ * ESM entry for a dependency: ESM packages are re-exported as-is; CommonJS ones get an
+ * interop wrapper with the statically detected named exports and CJS_MODULE_EXPORT.
+ */
+export async function dependencyProxyCode(resolvedPath: string): Promise<string> {
+  const resolvedPathEscaped = JSON.stringify(resolvedPath);
+  const { format, names, hasDefault } = await detectExports(resolvedPath);
+
+  if (format === 'esm') {
+    return `export * from ${resolvedPathEscaped};${
+      hasDefault ? ` export { default } from ${resolvedPathEscaped};` : ''
+    }`;
+  }
+
+  // bind each export to a local so reserved words (e.g. `delete`) stay valid export names
+  const valid = names.filter(
+    (name) => /^[A-Za-z_$][\w$]*$/.test(name) && name !== CJS_MODULE_EXPORT,
+  );
+  const locals = valid.map((name, i) => `const __e${i} = __m[${JSON.stringify(name)}];`);
+  const exported = valid.map((name, i) => `__e${i} as ${name}`);
+  return [
+    `const __m = require(${resolvedPathEscaped});`,
+    `export default __m && __m.__esModule && 'default' in __m ? __m.default : __m;`,
+    ...locals,
+    `export { ${[...exported, `__m as ${CJS_MODULE_EXPORT}`].join(', ')} };`,
+  ].join('\n');
+}
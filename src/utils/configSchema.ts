@@ -0,0 +1,214 @@
+/**
+ * configSchema.ts — lightweight schema validation for react-client.config
+ *
+ * Unknown keys produce warnings, wrong types produce errors that name the
+ * exact path (e.g. `server.port must be a number`).
+ */
+
+type SchemaType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'function';
+
+export interface SchemaNode {
+  type: SchemaType | SchemaType[];
+  /** Known keys for object nodes */
+  properties?: Record<string, SchemaNode>;
+  /** Schema for every value of a record-like object (e.g. alias maps) */
+  values?: SchemaNode;
+  /** Schema for array items */
+  items?: SchemaNode;
+  /** Allow keys not listed in `properties` without a warning */
+  open?: boolean;
+  /** Allowed values */
+  enum?: unknown[];
+  /** Keys that must be present on object nodes */
+  required?: string[];
+}
+
+export interface ValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+const pluginSchema: SchemaNode = {
+  type: 'object',
+  open: true,
+  required: ['name'],
+  properties: {
+    name: { type: 'string' },
+    version: { type: 'string' },
+    onTransform: { type: 'function' },
+    onModuleResolve: { type: 'function' },
+    onServe: { type: 'function' },
+    onHotUpdate: { type: 'function' },
+    onServerStart: { type: 'function' },
+  },
+};
+
+const preprocessorSchema: SchemaNode = {
+  type: 'object',
+  open: true,
+  properties: {
+    additionalData: { type: ['string', 'function'] },
+  },
+};
+
+export const configSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    root: { type: 'string' },
+    server: {
+      type: 'object',
+      properties: {
+        port: { type: 'number' },
+        open: { type: 'boolean' },
+        host: { type: ['string', 'boolean'] },
+        hmr: {
+          type: 'object',
+          properties: {
+            host: { type: 'string' },
+            port: { type: 'number' },
+            clientPort: { type: 'number' },
+            protocol: { type: 'string', enum: ['ws', 'wss'] },
+            path: { type: 'string' },
+          },
+        },
+        https: {
+          type: ['boolean', 'object'],
+          required: ['key', 'cert'],
+          properties: {
+            key: { type: 'string' },
+            cert: { type: 'string' },
+            ca: { type: 'string' },
+            passphrase: { type: 'string' },
+          },
+        },
+        proxy: {
+          type: 'object',
+          values: {
+            type: ['string', 'object'],
+            required: ['target'],
+            properties: {
+              target: { type: 'string' },
+              changeOrigin: { type: 'boolean' },
+              rewrite: { type: 'function' },
+              ws: { type: 'boolean' },
+              secure: { type: 'boolean' },
+              headers: { type: 'object', values: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+    build: {
+      type: 'object',
+      properties: {
+        outDir: { type: 'string' },
+        assetsInlineLimit: { type: 'number' },
+      },
+    },
+    assetsInclude: { type: ['string', 'object', 'array'] },
+    css: {
+      type: 'object',
+      properties: {
+        modules: {
+          type: 'object',
+          properties: {
+            generateScopedName: { type: ['string', 'function'] },
+            localsConvention: {
+              type: 'string',
+              enum: ['asIs', 'camelCase', 'camelCaseOnly', 'dashes', 'dashesOnly'],
+            },
+          },
+        },
+        preprocessorOptions: {
+          type: 'object',
+          properties: {
+            scss: preprocessorSchema,
+            sass: preprocessorSchema,
+            less: preprocessorSchema,
+            stylus: preprocessorSchema,
+          },
+        },
+        postcss: {
+          type: 'object',
+          open: true,
+          properties: {
+            plugins: { type: ['array', 'object'] },
+          },
+        },
+      },
+    },
+    resolve: {
+      type: 'object',
+      properties: {
+        alias: { type: 'object', values: { type: 'string' } },
+      },
+    },
+    plugins: { type: 'array', items: pluginSchema },
+  },
+};
+
+function typeOf(value: unknown): SchemaType | 'null' | 'undefined' | 'other' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const t = typeof value;
+  if (t === 'string' || t === 'number' || t === 'boolean' || t === 'function') return t;
+  if (t === 'object') return 'object';
+  if (t === 'undefined') return 'undefined';
+  return 'other';
+}
+
+function describe(types: SchemaType[]): string {
+  const named = types.map((t) => (t === 'array' || t === 'object' ? `an ${t}` : `a ${t}`));
+  return named.length > 1 ? `${named.slice(0, -1).join(', ')} or ${named.at(-1)}` : named[0];
+}
+
+function walk(value: unknown, schema: SchemaNode, at: string, result: ValidationResult) {
+  const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const actual = typeOf(value);
+  if (!expected.includes(actual as SchemaType) || (actual === 'number' && isNaN(value as number))) {
+    result.errors.push(`${at || 'config'} must be ${describe(expected)} (got ${actual})`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    result.errors.push(`${at} must be one of ${schema.enum.join(', ')} (got ${String(value)})`);
+    return;
+  }
+
+  if (actual === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => walk(item, schema.items!, `${at}[${i}]`, result));
+  }
+
+  if (actual === 'object') {
+    for (const key of schema.required ?? []) {
+      if ((value as Record<string, unknown>)[key] === undefined) {
+        result.errors.push(`${at ? `${at}.${key}` : key} is required`);
+      }
+    }
+  }
+
+  if (actual === 'object' && (schema.properties || schema.values)) {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      const childPath = at ? `${at}.${key}` : key;
+      const childSchema = schema.properties?.[key] ?? schema.values;
+      if (!childSchema) {
+        if (!schema.open) result.warnings.push(`Unknown config key "${childPath}"`);
+        continue;
+      }
+      if (child === undefined) continue;
+      walk(child, childSchema, childPath, result);
+    }
+  }
+}
+
+/**
+ * Validate a resolved user config against `configSchema`.
+ */
+export function validateConfig(
+  config: unknown,
+  schema: SchemaNode = configSchema,
+): ValidationResult {
+  const result: ValidationResult = { errors: [], warnings: [] };
+  walk(config, schema, '', result);
+  return result;
+}
@@ -0,0 +1,259 @@
+/**
+ * cssModules.ts — CSS Modules (`*.module.css`, `*.module.scss`, ...) compiler shared by dev and build
+ *
+ * Scopes class and @keyframes names per file (honouring `:global`/`:local`),
+ * resolves `composes`, and generates the JS side: a default-exported class map
+ * plus named exports for names that are valid identifiers.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import type { CssModulesOptions } from '../types/config';
+
+export const CSS_MODULE_RE = /\.module\.(css|scss|sass|less|styl|stylus)$/;
+
+export function isCssModule(id: string): boolean {
+  return CSS_MODULE_RE.test(id.split('?')[0]);
+}
+
+export interface CompiledCssModule {
+  /** CSS with local names replaced by their scoped names */
+  css: string;
+  /** ES module exporting the class map (imports composed modules) */
+  js: string;
+}
+
+type ClassPart = { expr: string } | { local: string };
+
+const DEFAULT_PATTERN = '[name]_[local]_[hash:5]';
+const IDENT_RE = /^-?(?:[_a-zA-Z]|\\.)(?:[\w-]|\\.)*/;
+
+function scopedName(local: string, file: string, appRoot: string, options: CssModulesOptions) {
+  const pattern = options.generateScopedName ?? DEFAULT_PATTERN;
+  if (typeof pattern === 'function') return pattern(local, file);
+
+  const relative = path.relative(appRoot, file).replace(/\\/g, '/');
+  const name = path
+    .basename(file)
+    .replace(/\.module\.[^.]+$/, '')
+    .replace(/[^\w-]/g, '_');
+  const hash = crypto.createHash('sha256').update(`${relative}:${local}`).digest('hex');
+  const scoped = pattern
+    .replace(/\[name\]/g, name)
+    .replace(/\[local\]/g, local)
+    .replace(/\[hash(?::(\d+))?\]/g, (_, len?: string) => hash.slice(0, len ? Number(len) : 8));
+  // class names cannot start with a digit
+  return /^-?\d/.test(scoped) ? `_${scoped}` : scoped;
+}
+
+function exportKeys(local: string, convention: CssModulesOptions['localsConvention']): string[] {
+  const camel = local.replace(/[-_]+(\w)/g, (_, c: string) => c.toUpperCase());
+  const dashes = local.replace(/-+(\w)/g, (_, c: string) => c.toUpperCase());
+  switch (convention) {
+    case 'camelCase':
+      return [...new Set([local, camel])];
+    case 'camelCaseOnly':
+      return [camel];
+    case 'dashes':
+      return [...new Set([local, dashes])];
+    case 'dashesOnly':
+      return [dashes];
+    default:
+      return [local];
+  }
+}
+
+/** Index of the `)` matching the `(` just before `start` */
+function closingParen(text: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return text.length;
+}
+
+/**
+ * Compile a CSS module. `css` is the already preprocessed (plain CSS) source of `file`.
+ */
+export function compileCssModule(
+  css: string,
+  file: string,
+  appRoot: string,
+  options: CssModulesOptions = {},
+): CompiledCssModule {
+  const unescape = (name: string) => name.replace(/\\(.)/g, '$1');
+  // local name -> its class string parts: JS expressions, or other local names it composes
+  const classes = new Map<string, ClassPart[]>();
+  const composedImports = new Map<string, string>();
+  const scope = (local: string) => {
+    const key = unescape(local);
+    const scoped = scopedName(key, file, appRoot, options);
+    if (!classes.has(key)) classes.set(key, [{ expr: JSON.stringify(scoped) }]);
+    return scoped;
+  };
+
+  // keyframes can be referenced before they are declared
+  const keyframes = new Map<string, string>();
+  for (const m of css.matchAll(/@(?:-[a-z]+-)?keyframes\s+(?!:global)(?::local\()?([\w-]+)/g)) {
+    keyframes.set(m[1], scope(m[1]));
+  }
+
+  function scopeSelector(selector: string, forceLocal = false): { text: string; locals: string[] } {
+    const locals: string[] = [];
+    let text = '';
+    let global = false;
+    for (let i = 0; i < selector.length; ) {
+      const rest = selector.slice(i);
+      if (rest.startsWith(':global(') || rest.startsWith(':local(')) {
+        const open = i + rest.indexOf('(') + 1;
+        const close = closingParen(selector, open);
+        const inner = selector.slice(open, close);
+        if (rest.startsWith(':global(')) {
+          text += inner;
+        } else {
+          const scoped = scopeSelector(inner, true);
+          text += scoped.text;
+          locals.push(...scoped.locals);
+        }
+        i = close + 1;
+      } else if (/^:(?:global|local)(?![\w(-])/.test(rest)) {
+        global = !forceLocal && rest.startsWith(':global');
+        i += rest.startsWith(':global') ? 7 : 6;
+        while (/\s/.test(selector[i] ?? '')) i++;
+      } else if (rest[0] === '.' && IDENT_RE.test(rest.slice(1))) {
+        const local = IDENT_RE.exec(rest.slice(1))?.[0] ?? '';
+        if (global) {
+          text += `.${local}`;
+        } else {
+          text += `.${scope(local)}`;
+          locals.push(unescape(local));
+        }
+        i += local.length + 1;
+      } else if (rest.startsWith('/*')) {
+        const end = rest.indexOf('*/');
+        const length = end < 0 ? rest.length : end + 2;
+        text += rest.slice(0, length);
+        i += length;
+      } else if (rest[0] === '[') {
+        // attribute selectors may contain dots in their values
+        const end = rest.indexOf(']');
+        const length = end < 0 ? rest.length : end + 1;
+        text += rest.slice(0, length);
+        i += length;
+      } else {
+        if (rest[0] === ',') global = false;
+        text += rest[0];
+        i++;
+      }
+    }
+    return { text, locals };
+  }
+
+  function transformPrelude(prelude: string): { text: string; locals: string[] } {
+    if (!prelude.trim().startsWith('@')) return scopeSelector(prelude);
+    const text = prelude.replace(
+      /^(\s*@(?:-[a-z]+-)?keyframes\s+)(?::(global|local)\(\s*([\w-]+)\s*\)|([\w-]+))/,
+      (_, at: string, mode?: string, wrapped?: string, bare?: string) =>
+        at + (mode === 'global' ? wrapped : keyframes.get(wrapped ?? bare ?? '') ?? bare),
+    );
+    return { text, locals: [] };
+  }
+
+  // Returns null for declarations that are compiled away (`composes`)
+  function transformDeclaration(declaration: string, ruleLocals: string[]): string | null {
+    const m = /^(\s*)(composes|animation-name|animation)(\s*:\s*)([\s\S]*)$/i.exec(declaration);
+    if (!m) return declaration;
+    const [, indent, property, colon, value] = m;
+
+    if (property.toLowerCase() === 'composes') {
+      const from = /^([\s\S]*?)\s+from\s+(?:(['"])(.*?)\2|(global))\s*$/.exec(value);
+      const names = (from ? from[1] : value).trim().split(/\s+/).filter(Boolean);
+      const parts = names.map((name): ClassPart => {
+        if (from?.[4]) return { expr: JSON.stringify(name) };
+        if (from) {
+          const spec = from[3];
+          if (!composedImports.has(spec)) composedImports.set(spec, `__c${composedImports.size}`);
+          return { expr: `${composedImports.get(spec)}[${JSON.stringify(name)}]` };
+        }
+        scope(name);
+        return { local: name };
+      });
+      for (const local of ruleLocals) classes.get(local)?.push(...parts);
+      return null;
+    }
+
+    const scopedValue = value.replace(/[\w-]+/g, (word) => keyframes.get(word) ?? word);
+    return indent + property + colon + scopedValue;
+  }
+
+  // Walk the stylesheet: text before `{` is a prelude, text ending in `;`/`}` a declaration.
+  // Comments, strings and parentheses (e.g. `url(data:...;...)`) are copied as-is.
+  let out = '';
+  let buf = '';
+  const ruleStack: string[][] = [];
+  for (let i = 0; i < css.length; i++) {
+    const ch = css[i];
+    if (ch === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      const stop = end < 0 ? css.length : end + 2;
+      buf += css.slice(i, stop);
+      i = stop - 1;
+    } else if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < css.length && css[j] !== ch) j += css[j] === '\\' ? 2 : 1;
+      buf += css.slice(i, j + 1);
+      i = j;
+    } else if (ch === '(') {
+      const close = closingParen(css, i + 1);
+      buf += css.slice(i, close + 1);
+      i = close;
+    } else if (ch === '{') {
+      const prelude = transformPrelude(buf);
+      out += prelude.text + ch;
+      ruleStack.push(prelude.locals);
+      buf = '';
+    } else if (ch === ';' || ch === '}') {
+      const declaration = buf.trim() ? transformDeclaration(buf, ruleStack.at(-1) ?? []) : buf;
+      if (declaration !== null) out += declaration + (ch === ';' ? ch : '');
+      if (ch === '}') {
+        out += ch;
+        ruleStack.pop();
+      }
+      buf = '';
+    } else {
+      buf += ch;
+    }
+  }
+  out += buf;
+
+  // JS side: class map (composed classes resolved at runtime) + named exports
+  const imports = [...composedImports].map(
+    ([spec, name]) => `import ${name} from ${JSON.stringify(spec)};`,
+  );
+  // local composes are inlined (recursively, ignoring cycles)
+  const expand = (local: string, seen: Set<string>): string[] =>
+    (classes.get(local) ?? []).flatMap((part) => {
+      if ('expr' in part) return [part.expr];
+      if (seen.has(part.local)) return [];
+      return expand(part.local, new Set([...seen, part.local]));
+    });
+  const entries: string[] = [];
+  const named: string[] = [];
+  for (const local of classes.keys()) {
+    const value = [...new Set(expand(local, new Set([local])))].join(' + " " + ');
+    for (const key of exportKeys(local, options.localsConvention)) {
+      entries.push(`  ${JSON.stringify(key)}: ${value},`);
+      if (/^[A-Za-z_$][\w$]*$/.test(key) && key !== 'default') named.push(key);
+    }
+  }
+  const js = [
+    ...imports,
+    `const __classes = {\n${entries.join('\n')}\n};`,
+    'export default __classes;',
+    ...named.map((key, i) => `const __e${i} = __classes[${JSON.stringify(key)}];`),
+    named.length ? `export { ${named.map((key, i) => `__e${i} as ${key}`).join(', ')} };` : '',
+  ].join('\n');
+
+  return { css: out, js };
+}
@@ -0,0 +1,186 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { createRequire } from 'module';
+import type { Plugin } from 'esbuild';
+import type { ReactClientPlugin } from '../types/plugin';
+import type { CssOptions, PostcssOptions } from '../types/config';
+import { CSS_MODULE_RE, compileCssModule, isCssModule } from './cssModules.js';
+import { isStyleFile, preprocessCss } from './cssPreprocessors.js';
+import { loadPostcssConfig } from './postcssConfig.js';
+import { toEsbuildMessage } from './esbuildPlugin.js';
+
+export interface StylesheetResult {
+  css: string;
+  /** Other files the output was compiled from (partials, Tailwind config, ...) */
+  dependencies: string[];
+  /** Directories whose matching files affect the output (Tailwind `content`) */
+  dirDependencies: { dir: string; glob: string }[];
+}
+
+interface PostcssMessage {
+  type: string;
+  file?: string;
+  dir?: string;
+  glob?: string;
+}
+
+/**
+ * Run app CSS through the app's PostCSS config (postcss.config.*, or `css.postcss`).
+ * PostCSS and every plugin are resolved from the app, never from react-client itself.
+ */
+export async function processCss(
+  css: string,
+  id: string,
+  appRoot: string,
+  mode: string,
+  inlineConfig?: PostcssOptions,
+): Promise<StylesheetResult> {
+  const result: StylesheetResult = { css, dependencies: [], dirDependencies: [] };
+  const config = await loadPostcssConfig(appRoot, mode, inlineConfig);
+  if (!config || !config.plugins.length) return result;
+
+  const appRequire = createRequire(path.join(appRoot, 'package.json'));
+  const postcss = appRequire('postcss');
+  // errors (CssSyntaxError carries file, line and column) go to the overlay / build log
+  const processed = await postcss(config.plugins).process(css, {
+    ...config.options,
+    from: id,
+    to: id,
+  });
+  result.css = processed.css;
+  for (const message of processed.messages as PostcssMessage[]) {
+    if (message.type === 'dependency' && message.file) {
+      result.dependencies.push(message.file);
+    } else if (message.type === 'dir-dependency' && message.dir) {
+      result.dirDependencies.push({ dir: message.dir, glob: message.glob ?? '**/*' });
+    }
+  }
+  if (config.file) result.dependencies.push(config.file);
+  return result;
+}
+
+/**
+ * Full stylesheet pipeline: preprocessor (Sass/Less/Stylus), then PostCSS.
+ * Returns plain CSS and the other files it was compiled from.
+ */
+export async function compileStylesheet(
+  source: string,
+  id: string,
+  appRoot: string,
+  mode: string,
+  css: CssOptions = {},
+): Promise<StylesheetResult> {
+  const preprocessed = await preprocessCss(source, id, appRoot, css);
+  const processed = await processCss(preprocessed.css, id, appRoot, mode, css.postcss);
+  return {
+    ...processed,
+    dependencies: [...new Set([...preprocessed.dependencies, ...processed.dependencies])],
+  };
+}
+
+/**
+ * Core CSS plugin shared by `dev` and `build`.
+ * With `hmr` the processed CSS is wrapped in a self-updating <style> module;
+ * without it the plain CSS is returned so the bundler can emit it.
+ * CSS Modules also export their class map; in `build` they are handled by
+ * `cssModulesEsbuildPlugin` instead, since they compile to JS plus CSS.
+ */
+export function createCssPlugin(
+  appRoot: string,
+  opts: { hmr: boolean; mode: string; css?: CssOptions },
+): ReactClientPlugin {
+  return {
+    name: opts.hmr ? 'css-hmr' : 'css',
+    async onTransform(code, id, ctx) {
+      if (!isStyleFile(id)) return code;
+      const stylesheet = await compileStylesheet(code, id, appRoot, opts.mode, opts.css);
+      for (const file of stylesheet.dependencies) ctx.addWatchFile(file);
+      for (const { dir, glob } of stylesheet.dirDependencies) ctx.addWatchDir(dir, glob);
+      let css = stylesheet.css;
+      let exports = '';
+      if (isCssModule(id)) {
+        const compiled = compileCssModule(css, id, appRoot, opts.css?.modules);
+        css = compiled.css;
+        exports = compiled.js;
+      }
+      if (!opts.hmr) return css;
+
+      // CSS Modules are not self-accepting: changed class names must reach their importers
+      const escaped = JSON.stringify(css);
+      return `
+            const css = ${escaped};
+            const id = ${JSON.stringify(id)};
+            let style = document.getElementById(id);
+            if (!style) {
+              style = document.createElement("style");
+              style.id = id;
+              document.head.appendChild(style);
+            }
+            style.textContent = css;
+            import.meta.hot?.prune(() => style.remove());
+            ${exports || 'import.meta.hot?.accept();'}
+          `;
+    },
+  };
+}
+
+/**
+ * Build-time CSS Modules: each `*.module.css` becomes a JS module exporting its
+ * class map that imports the scoped CSS, which esbuild then emits with the rest.
+ * `plugins` (the user's) transform the scoped CSS, as they do other stylesheets.
+ */
+export function cssModulesEsbuildPlugin(
+  appRoot: string,
+  mode: string,
+  cssOptions: CssOptions = {},
+  plugins: ReactClientPlugin[] = [],
+): Plugin {
+  return {
+    name: 'react-client-css-modules',
+    setup(build) {
+      const compiledCss = new Map<string, string>();
+
+      build.onLoad({ filter: CSS_MODULE_RE, namespace: 'file' }, async (args) => {
+        if (args.path.includes('node_modules')) return null;
+        const source = await fs.readFile(args.path, 'utf8');
+        let plugin: string | undefined;
+        try {
+          const stylesheet = await compileStylesheet(source, args.path, appRoot, mode, cssOptions);
+          const compiled = compileCssModule(stylesheet.css, args.path, appRoot, cssOptions.modules);
+          const watchFiles = [...stylesheet.dependencies];
+          const watchDirs = stylesheet.dirDependencies.map(({ dir }) => dir);
+          const ctx = {
+            addWatchFile: (file: string) => watchFiles.push(file),
+            addWatchDir: (dir: string) => watchDirs.push(dir),
+          };
+          let css = compiled.css;
+          for (const p of plugins) {
+            plugin = p.name;
+            const out = await p.onTransform?.(css, args.path, ctx);
+            if (typeof out === 'string') css = out;
+          }
+          compiledCss.set(args.path, css);
+          return {
+            contents: `import ${JSON.stringify(`${args.path}?css-module`)};\n${compiled.js}`,
+            loader: 'js',
+            resolveDir: path.dirname(args.path),
+            watchFiles,
+            watchDirs,
+          };
+        } catch (err) {
+          return { errors: [await toEsbuildMessage(err, args.path, source, plugin)] };
+        }
+      });
+
+      build.onResolve({ filter: /\?css-module$/ }, (args) => ({
+        path: args.path.replace(/\?css-module$/, ''),
+        namespace: 'css-module',
+      }));
+      build.onLoad({ filter: /.*/, namespace: 'css-module' }, (args) => ({
+        contents: compiledCss.get(args.path) ?? '',
+        loader: 'css',
+        resolveDir: path.dirname(args.path),
+      }));
+    },
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * cssPreprocessors.ts — Sass/SCSS, Less and Stylus compilation
+ *
+ * Each compiler is resolved from the app (like PostCSS/Tailwind in cssPlugin),
+ * so react-client never ships one. Output CSS carries an inline source map and
+ * the list of files it was built from (partials, imports) for HMR.
+ */
+
+import path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { CssOptions, PreprocessorOptions } from '../types/config';
+
+export type PreprocessorLang = 'scss' | 'sass' | 'less' | 'stylus';
+
+export const STYLE_RE = /\.(css|scss|sass|less|styl|stylus)$/;
+
+const LANGS: Record<string, PreprocessorLang> = {
+  '.scss': 'scss',
+  '.sass': 'sass',
+  '.less': 'less',
+  '.styl': 'stylus',
+  '.stylus': 'stylus',
+};
+
+export interface PreprocessResult {
+  css: string;
+  /** Absolute paths of every other file the output was compiled from */
+  dependencies: string[];
+}
+
+/** Any stylesheet the CSS pipeline handles (plain CSS or a preprocessor language) */
+export function isStyleFile(id: string): boolean {
+  return STYLE_RE.test(id.split('?')[0]);
+}
+
+export function preprocessorLang(id: string): PreprocessorLang | undefined {
+  return LANGS[path.extname(id.split('?')[0]).toLowerCase()];
+}
+
+function inlineSourceMap(css: string, map: unknown): string {
+  if (!map) return css;
+  const json = typeof map === 'string' ? map : JSON.stringify(map);
+  const encoded = Buffer.from(json).toString('base64');
+  return `${css}\n/*# sourceMappingURL=data:application/json;base64,${encoded} */\n`;
+}
+
+function loadPreprocessor<T>(appRoot: string, names: string[]): T {
+  const appRequire = createRequire(path.join(appRoot, 'package.json'));
+  for (const name of names) {
+    try {
+      return appRequire(name) as T;
+    } catch {
+      // try the next candidate
+    }
+  }
+  throw new Error(
+    `Preprocessor dependency "${names[0]}" not found. Install it in your app: npm install -D ${names[0]}`,
+  );
+}
+
+interface SassModule {
+  compileStringAsync(
+    source: string,
+    options: Record<string, unknown>,
+  ): Promise<{ css: string; sourceMap?: unknown; loadedUrls: URL[] }>;
+}
+
+interface LessModule {
+  render(
+    source: string,
+    options: Record<string, unknown>,
+  ): Promise<{ css: string; map?: string; imports: string[] }>;
+}
+
+interface StylusRenderer {
+  set(key: string, value: unknown): StylusRenderer;
+  deps(): string[];
+  render(callback: (err: Error | null, css: string) => void): void;
+  sourcemap?: unknown;
+}
+type StylusModule = (source: string, options: Record<string, unknown>) => StylusRenderer;
+
+/**
+ * Compile a Sass/SCSS, Less or Stylus file to CSS. Plain CSS is returned unchanged.
+ */
+export async function preprocessCss(
+  source: string,
+  id: string,
+  appRoot: string,
+  css: CssOptions = {},
+): Promise<PreprocessResult> {
+  const lang = preprocessorLang(id);
+  if (!lang) return { css: source, dependencies: [] };
+
+  const { additionalData, ...options }: PreprocessorOptions = css.preprocessorOptions?.[lang] ?? {};
+  if (typeof additionalData === 'function') source = additionalData(source, id);
+  else if (additionalData) source = `${additionalData}\n${source}`;
+
+  if (lang === 'scss' || lang === 'sass') {
+    const sass = loadPreprocessor<SassModule>(appRoot, ['sass', 'sass-embedded']);
+    const result = await sass.compileStringAsync(source, {
+      loadPaths: [path.dirname(id), appRoot],
+      ...options,
+      syntax: lang === 'sass' ? 'indented' : 'scss',
+      url: pathToFileURL(id),
+      sourceMap: true,
+      sourceMapIncludeSources: true,
+    });
+    const dependencies = result.loadedUrls
+      .filter((url) => url.protocol === 'file:')
+      .map((url) => fileURLToPath(url))
+      .filter((file) => file !== id);
+    return { css: inlineSourceMap(result.css, result.sourceMap), dependencies };
+  }
+
+  if (lang === 'less') {
+    const lessModule = loadPreprocessor<LessModule | { default: LessModule }>(appRoot, ['less']);
+    const less = 'default' in lessModule ? lessModule.default : lessModule;
+    const result = await less.render(source, {
+      paths: [path.dirname(id), appRoot],
+      ...options,
+      filename: id,
+      sourceMap: { outputSourceFiles: true },
+    });
+    return { css: inlineSourceMap(result.css, result.map), dependencies: result.imports };
+  }
+
+  const stylus = loadPreprocessor<StylusModule>(appRoot, ['stylus']);
+  const renderer = stylus(source, { paths: [path.dirname(id), appRoot], ...options })
+    .set('filename', id)
+    .set('sourcemap', { comment: false, inline: false });
+  const output = await new Promise<string>((resolve, reject) =>
+    renderer.render((err, out) => (err ? reject(err) : resolve(out))),
+  );
+  return {
+    css: inlineSourceMap(output, renderer.sourcemap),
+    dependencies: renderer.deps().map((file) => path.resolve(file)),
+  };
+}
@@ -0,0 +1,132 @@
+import path from 'path';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+
+/** Only variables with one of these prefixes are exposed to client code */
+export const ENV_PREFIXES = ['RC_', 'PUBLIC_', 'VITE_'];
+
+// esbuild only accepts dotted identifier chains as `define` keys
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// KEY=value, KEY="multi\nline", KEY='literal', export KEY=value, trailing # comments
+const LINE =
+  /^\s*(?:export[ \t]+)?([\w.-]+)[ \t]*=[ \t]*('(?:\\'|[^'])*'|"(?:\\"|[^"])*"|`(?:\\`|[^`])*`|[^#\r\n]*)?[ \t]*(?:#.*)?$/gm;
+
+interface ParsedValue {
+  value: string;
+  /** single-quoted values are taken literally (no ${VAR} expansion) */
+  literal: boolean;
+}
+
+/**
+ * Parse the contents of a .env file.
+ * Supports quoted and multiline values, `export` prefixes and comments.
+ */
+export function parseEnv(src: string): Record<string, ParsedValue> {
+  const out: Record<string, ParsedValue> = {};
+  const lines = src.replace(/\r\n?/g, '\n');
+  for (const m of lines.matchAll(LINE)) {
+    const key = m[1];
+    let value = (m[2] ?? '').trim();
+    const quote = value[0];
+    let literal = false;
+    if ((quote === '"' || quote === "'" || quote === '`') && value.endsWith(quote)) {
+      value = value.slice(1, -1);
+      if (quote === '"') value = value.replace(/\\n/g, '\n').replace(/\\r/g, '\r');
+      literal = quote === "'";
+    }
+    out[key] = { value, literal };
+  }
+  return out;
+}
+
+/**
+ * Expand `$VAR`, `${VAR}` and `${VAR:-default}` against the merged env.
+ * `\$` keeps a literal dollar sign.
+ */
+function expand(
+  key: string,
+  parsed: Record<string, ParsedValue>,
+  seen: Set<string> = new Set(),
+): string {
+  const external = process.env[key];
+  if (external !== undefined) return external;
+  const entry = parsed[key];
+  if (!entry) return '';
+  if (entry.literal || seen.has(key)) return entry.value;
+  seen.add(key);
+  return entry.value.replace(
+    /(\\)?\$(?:\{([\w.-]+)(?::-([^}]*))?\}|([A-Za-z_][\w]*))/g,
+    (match, escaped, braced, fallback, bare) => {
+      if (escaped) return match.slice(1);
+      const ref = braced ?? bare;
+      const resolved = expand(ref, parsed, new Set(seen));
+      return resolved === '' && fallback !== undefined ? fallback : resolved;
+    },
+  );
+}
+
+/** The .env cascade for a mode, lowest priority first */
+export function envFiles(mode: string): string[] {
+  return ['.env', '.env.local', `.env.${mode}`, `.env.${mode}.local`];
+}
+
+/**
+ * Load `.env`, `.env.local`, `.env.[mode]` and `.env.[mode].local` from `envDir`.
+ * Later files win; variables already present in process.env win over all files.
+ * Returns only the variables with a public prefix (see ENV_PREFIXES).
+ */
+export async function loadEnv(mode: string, envDir: string): Promise<Record<string, string>> {
+  const parsed: Record<string, ParsedValue> = {};
+
+  for (const file of envFiles(mode)) {
+    const filePath = path.join(envDir, file);
+    if (!(await fs.pathExists(filePath))) continue;
+    Object.assign(parsed, parseEnv(await fs.readFile(filePath, 'utf8')));
+  }
+
+  const env: Record<string, string> = {};
+  const keys = new Set([...Object.keys(parsed), ...Object.keys(process.env)]);
+  for (const key of keys) {
+    if (!ENV_PREFIXES.some((prefix) => key.startsWith(prefix))) continue;
+    env[key] = expand(key, parsed);
+  }
+  return env;
+}
+
+/**
+ * Build esbuild `define` entries exposing env vars as `process.env.*`
+ * and a typed `import.meta.env` (MODE, DEV, PROD, BASE_URL + public vars).
+ * Names that are not JS identifiers (`RC_API-URL`) only get a warning.
+ */
+export function envDefines(
+  env: Record<string, string>,
+  opts: { mode: string; dev: boolean; baseUrl?: string },
+): Record<string, string> {
+  const valid: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (IDENTIFIER.test(key)) {
+      valid[key] = value;
+    } else {
+      console.warn(chalk.yellow(`⚠️ Skipping env variable ${key}: not a valid JS identifier.`));
+    }
+  }
+  const meta: Record<string, string | boolean> = {
+    ...valid,
+    MODE: opts.mode,
+    DEV: opts.dev,
+    PROD: !opts.dev,
+    BASE_URL: opts.baseUrl ?? '/',
+  };
+  const defines: Record<string, string> = {
+    'process.env.NODE_ENV': JSON.stringify(opts.dev ? 'development' : 'production'),
+    'import.meta.env': JSON.stringify(meta),
+  };
+  for (const [key, value] of Object.entries(valid)) {
+    defines[`process.env.${key}`] = JSON.stringify(value);
+  }
+  for (const [key, value] of Object.entries(meta)) {
+    defines[`import.meta.env.${key}`] = JSON.stringify(value);
+  }
+  return defines;
+}
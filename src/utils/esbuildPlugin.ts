@@ -0,0 +1,116 @@
+import path from 'path';
+import fs from 'fs-extra';
+import type { Loader, PartialMessage, Plugin } from 'esbuild';
+import { createErrorPayload } from '../server/errorPayload.js';
+import type { ReactClientPlugin } from '../types/plugin';
+import { isBareImport } from './moduleLexer.js';
+
+const LOADERS: Record<string, Loader> = {
+  '.ts': 'ts',
+  '.tsx': 'tsx',
+  '.js': 'jsx',
+  '.jsx': 'jsx',
+  '.mjs': 'js',
+  '.css': 'css',
+  // preprocessor languages are compiled to CSS by the css plugin
+  '.scss': 'css',
+  '.sass': 'css',
+  '.less': 'css',
+  '.styl': 'css',
+  '.stylus': 'css',
+};
+
+const NODE_MODULES_RE = /[\\/]node_modules[\\/]/;
+
+/**
+ * An error thrown while loading `file` (from `source`, by `plugin`) as an esbuild
+ * message, located the way the dev overlay locates it.
+ */
+export async function toEsbuildMessage(
+  err: unknown,
+  file: string,
+  source?: string,
+  plugin?: string,
+): Promise<PartialMessage> {
+  const payload = await createErrorPayload(err, { file, source, plugin });
+  const errorFile = payload.file ?? file;
+  const lineText =
+    errorFile === file && payload.line ? source?.split(/\r?\n/)[payload.line - 1] : undefined;
+  return {
+    text: plugin ? `[${plugin}] ${payload.message}` : payload.message,
+    location: payload.line
+      ? { file: errorFile, line: payload.line, column: (payload.column ?? 1) - 1, lineText }
+      : null,
+  };
+}
+
+/**
+ * Adapt a ReactClientPlugin chain to an esbuild plugin so `build` runs the
+ * same onModuleResolve / onTransform hooks the dev server does.
+ * Like in dev, onModuleResolve only sees bare imports of app modules, and only
+ * app sources are transformed; node_modules are left to esbuild.
+ */
+export function toEsbuildPlugin(plugins: ReactClientPlugin[], appRoot: string): Plugin {
+  return {
+    name: 'react-client-plugins',
+    setup(build) {
+      const resolvers = plugins.filter((p) => p.onModuleResolve);
+      const transformers = plugins.filter((p) => p.onTransform);
+
+      if (resolvers.length) {
+        build.onResolve({ filter: /.*/ }, async (args) => {
+          // Re-entrant resolve below is tagged so we don't loop forever
+          if (args.kind === 'entry-point' || args.pluginData?.reactClientResolved) return null;
+          if (!isBareImport(args.path) || NODE_MODULES_RE.test(args.importer)) return null;
+          const importer = args.importer || appRoot;
+          for (const p of resolvers) {
+            const resolved = await p.onModuleResolve?.(args.path, importer);
+            if (typeof resolved !== 'string') continue;
+            if (path.isAbsolute(resolved)) return { path: resolved };
+            const result = await build.resolve(resolved, {
+              kind: args.kind,
+              importer: args.importer,
+              resolveDir: args.resolveDir,
+              pluginData: { reactClientResolved: true },
+            });
+            if (result.errors.length) return { errors: result.errors };
+            return { path: result.path, external: result.external };
+          }
+          return null;
+        });
+      }
+
+      if (transformers.length) {
+        build.onLoad(
+          { filter: /\.(tsx?|jsx?|mjs|css|scss|sass|less|styl|stylus)$/ },
+          async (args) => {
+            if (NODE_MODULES_RE.test(args.path)) return null;
+            const source = await fs.readFile(args.path, 'utf8');
+            let code = source;
+            const watchFiles: string[] = [];
+            const watchDirs: string[] = [];
+            const ctx = {
+              addWatchFile: (file: string) => watchFiles.push(file),
+              addWatchDir: (dir: string) => watchDirs.push(dir),
+            };
+            for (const p of transformers) {
+              try {
+                const out = await p.onTransform?.(code, args.path, ctx);
+                if (typeof out === 'string') code = out;
+              } catch (err) {
+                return { errors: [await toEsbuildMessage(err, args.path, source, p.name)] };
+              }
+            }
+            return {
+              contents: code,
+              loader: LOADERS[path.extname(args.path).toLowerCase()] || 'js',
+              resolveDir: path.dirname(args.path),
+              watchFiles,
+              watchDirs,
+            };
+          },
+        );
+      }
+    },
+  };
+}
@@ -2,28 +2,64 @@ import path from 'path';
 import fs from 'fs-extra';
 import { pathToFileURL } from 'url';
 import chalk from 'chalk';
-import { build } from 'esbuild';
+import { build, formatMessages } from 'esbuild';
+import type { BuildFailure } from 'esbuild';
+import { validateConfig } from './configSchema.js';
 
-export interface ReactClientConfig {
-  root?: string;
-  server?: { port?: number };
-  build?: { outDir?: string };
-  [key: string]: unknown;
+import type { ConfigEnv, ReactClientConfig } from '../types/config';
+
+export type { ConfigEnv, ReactClientConfig } from '../types/config';
+
+/**
+ * Thrown when react-client.config cannot be compiled, imported or validated.
+ * `details` holds one human readable line (or formatted diagnostic) per problem.
+ */
+export class ConfigError extends Error {
+  constructor(message: string, public readonly details: string[] = []) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/** A resolved config plus the files it was loaded from (for restart-on-change) */
+export interface LoadedConfig {
+  config: ReactClientConfig;
+  /** Absolute path of react-client.config.*, or null when using defaults */
+  file: string | null;
+  /** The config file and every local file it imports */
+  dependencies: string[];
+}
+
+function isBuildFailure(err: unknown): err is BuildFailure {
+  return !!err && typeof err === 'object' && Array.isArray((err as BuildFailure).errors);
 }
 
 /**
  * Dynamically loads react-client.config.(ts|js|mjs)
  * Compiles .ts and .js configs to .mjs temporarily for import.
+ * Function-form configs are called (and awaited) with `env`.
+ * Throws ConfigError on compile, import or validation failure.
  */
-export async function loadReactClientConfig(cwd: string): Promise<ReactClientConfig> {
+export async function loadReactClientConfig(
+  cwd: string,
+  env: ConfigEnv,
+): Promise<ReactClientConfig> {
+  return (await resolveReactClientConfig(cwd, env)).config;
+}
+
+/**
+ * Same as loadReactClientConfig, but also reports which files the config
+ * came from so the dev server can restart when any of them change.
+ */
+export async function resolveReactClientConfig(cwd: string, env: ConfigEnv): Promise<LoadedConfig> {
   let projectRoot = cwd;
 
-  try {
-    // Detect if running inside react-client repo for local testing
-    const pkgPath = path.join(cwd, 'package.json');
-    const isLocalCLI = await fs.pathExists(path.join(cwd, 'src/cli/index.ts'));
+  // Detect if running inside react-client repo for local testing
+  const pkgPath = path.join(cwd, 'package.json');
+  const isLocalCLI = await fs.pathExists(path.join(cwd, 'src/cli/index.ts'));
 
-    if (await fs.pathExists(pkgPath)) {
+  if (await fs.pathExists(pkgPath)) {
+    try {
       const pkg = JSON.parse(await fs.readFile(pkgPath, 'utf8'));
       if (
         pkg.name === 'react-client' &&
@@ -33,35 +69,38 @@ export async function loadReactClientConfig(cwd: string): Promise<ReactClientCon
         console.log(chalk.gray('🧩 Detected local CLI environment, using ./myapp as root.'));
         projectRoot = path.join(cwd, 'myapp');
       }
+    } catch {
+      // an unreadable package.json is not a config problem
     }
+  }
 
-    const filenames = [
-      'react-client.config.ts',
-      'react-client.config.mjs',
-      'react-client.config.js',
-    ];
-
-    let configFile: string | null = null;
-    for (const name of filenames) {
-      const file = path.join(projectRoot, name);
-      if (await fs.pathExists(file)) {
-        configFile = file;
-        break;
-      }
-    }
+  const filenames = ['react-client.config.ts', 'react-client.config.mjs', 'react-client.config.js'];
 
-    if (!configFile) {
-      console.log(chalk.gray('ℹ️ No react-client.config found, using defaults.'));
-      return {};
+  let configFile: string | null = null;
+  for (const name of filenames) {
+    const file = path.join(projectRoot, name);
+    if (await fs.pathExists(file)) {
+      configFile = file;
+      break;
     }
+  }
 
-    const ext = path.extname(configFile);
-    const tempFile = path.join(projectRoot, `.react-client.temp-${Date.now()}.mjs`);
+  if (!configFile) {
+    console.log(chalk.gray('ℹ️ No react-client.config found, using defaults.'));
+    return { config: {}, file: null, dependencies: [] };
+  }
 
-    // 🧠 Always compile .ts or .js → .mjs for safe ESM import
-    try {
-      if (ext === '.ts' || ext === '.js') {
-        await build({
+  const configName = path.basename(configFile);
+  const ext = path.extname(configFile);
+  const tempFile = path.join(projectRoot, `.react-client.temp-${Date.now()}.mjs`);
+
+  let config: unknown;
+  let dependencies = [configFile];
+  // 🧠 Always compile .ts or .js → .mjs for safe ESM import
+  try {
+    if (ext === '.ts' || ext === '.js') {
+      try {
+        const result = await build({
           entryPoints: [configFile],
           outfile: tempFile,
           platform: 'node',
@@ -69,26 +108,57 @@ export async function loadReactClientConfig(cwd: string): Promise<ReactClientCon
           target: 'node18',
           bundle: true,
           write: true,
+          metafile: true,
           logLevel: 'silent',
         });
-      } else {
-        await fs.copyFile(configFile, tempFile);
+        dependencies = Object.keys(result.metafile.inputs)
+          .filter((input) => !input.includes('node_modules'))
+          .map((input) => path.resolve(input));
+      } catch (err) {
+        if (isBuildFailure(err)) {
+          const details = await formatMessages(err.errors, {
+            kind: 'error',
+            color: Boolean(chalk.supportsColor),
+          });
+          throw new ConfigError(`Failed to compile ${configName}`, details);
+        }
+        throw err;
       }
+    } else {
+      await fs.copyFile(configFile, tempFile);
+    }
 
-      // Import via file:// URL
-      const fileUrl = pathToFileURL(tempFile).href;
+    // Import via file:// URL
+    const fileUrl = pathToFileURL(tempFile).href;
+    try {
       const mod = await import(fileUrl);
-      const config = mod.default || mod;
-      console.log(chalk.green(`🧩 Loaded config from ${path.basename(configFile)}`));
-      return config as ReactClientConfig;
-    } finally {
-      if (await fs.pathExists(tempFile)) {
-        await fs.remove(tempFile);
-      }
+      config = mod.default || mod;
+    } catch (err) {
+      const e = err as Error;
+      throw new ConfigError(`Failed to load ${configName}: ${e.message}`, [e.stack ?? e.message]);
     }
-  } catch (err: unknown) {
-    const msg = err instanceof Error ? err.message : String(err);
-    console.error(chalk.red(`❌ Could not load config: ${msg}`));
-    return {};
+  } finally {
+    if (await fs.pathExists(tempFile)) {
+      await fs.remove(tempFile);
+    }
+  }
+
+  try {
+    if (typeof config === 'function') config = await config(env);
+    else config = await config;
+  } catch (err) {
+    const e = err as Error;
+    throw new ConfigError(`Failed to resolve ${configName}: ${e.message}`, [e.stack ?? e.message]);
   }
+
+  const { errors, warnings } = validateConfig(config);
+  for (const warning of warnings) {
+    console.warn(chalk.yellow(`⚠️ ${configName}: ${warning}`));
+  }
+  if (errors.length) {
+    throw new ConfigError(`Invalid ${configName}`, errors);
+  }
+
+  console.log(chalk.green(`🧩 Loaded config from ${configName}`));
+  return { config: config as ReactClientConfig, file: configFile, dependencies };
 }
@@ -0,0 +1,230 @@
+/**
+ * moduleLexer.ts — exact import/export discovery and rewriting
+ *
+ * Uses es-module-lexer so only real import/export specifiers are touched —
+ * never look-alike text in strings, template literals or comments.
+ * Input must be plain JS (run esbuild first for TS/JSX).
+ */
+
+import path from 'path';
+import esbuild from 'esbuild';
+import { init, parse } from 'es-module-lexer';
+import { CJS_MODULE_EXPORT } from './cjsExports.js';
+import { applyEdits, type CodeEdit } from './sourceMap.js';
+
+export interface ModuleImport {
+  /** The specifier, e.g. `react` or `./App` */
+  specifier: string;
+  /** `import()` rather than a static import/export-from */
+  dynamic: boolean;
+}
+
+const JS_LOADERS: Record<string, esbuild.Loader> = {
+  '.ts': 'ts',
+  '.tsx': 'tsx',
+  '.jsx': 'jsx',
+  '.mts': 'ts',
+  '.cts': 'ts',
+};
+
+/**
+ * True for package specifiers (`react`, `@scope/pkg/sub`, aliases like `@/x`),
+ * false for relative/absolute paths and URLs.
+ */
+export function isBareImport(id: string): boolean {
+  return !/^(?:\.{0,2}\/|[a-z][a-z0-9+.-]*:\/\/|data:)/i.test(id);
+}
+
+/**
+ * Find every import/re-export specifier with a literal name.
+ */
+export async function scanImports(code: string): Promise<ModuleImport[]> {
+  await init;
+  const [imports] = parse(code);
+  const found: ModuleImport[] = [];
+  for (const imp of imports) {
+    if (imp.d === -2 || imp.n === undefined) continue;
+    found.push({ specifier: imp.n, dynamic: imp.d > -1 });
+  }
+  return found;
+}
+
+/**
+ * Like scanImports, but accepts TS/TSX/JSX source by stripping types and JSX first.
+ */
+export async function scanFileImports(code: string, file: string): Promise<ModuleImport[]> {
+  const loader = JS_LOADERS[path.extname(file).toLowerCase()];
+  if (loader) {
+    code = (await esbuild.transform(code, { loader, jsx: 'automatic', target: 'esnext' })).code;
+  }
+  return scanImports(code);
+}
+
+/**
+ * Rewrite import/export specifiers in place by offset.
+ * `resolve` returns the replacement specifier, or null to leave it untouched.
+ * When `hot` is given, real `import.meta.hot` expressions are replaced with it.
+ * An inline source map is updated to the rewritten code.
+ */
+export async function rewriteImports(
+  code: string,
+  resolve: (specifier: string, dynamic: boolean) => Promise<string | null> | string | null,
+  hot?: string,
+): Promise<string> {
+  await init;
+  const [imports] = parse(code);
+  const edits: CodeEdit[] = [];
+
+  for (const imp of imports) {
+    if (imp.d === -2) {
+      if (hot && code.startsWith('.hot', imp.e) && !/[\w$]/.test(code[imp.e + 4] ?? '')) {
+        edits.push({ start: imp.s, end: imp.e + 4, text: hot });
+      }
+      continue;
+    }
+    if (imp.n === undefined) continue;
+    const dynamic = imp.d > -1;
+    const replacement = await resolve(imp.n, dynamic);
+    if (replacement === null || replacement === imp.n) continue;
+    // dynamic import offsets include the quotes, static ones do not
+    edits.push({
+      start: imp.s,
+      end: imp.e,
+      text: dynamic ? JSON.stringify(replacement) : replacement,
+    });
+  }
+
+  return applyEdits(code, edits);
+}
+
+/**
+ * Read named imports of CommonJS modules off `module.exports` at the import site, so
+ * names the export lexer cannot detect (UMD builds, `module.exports = factory()`)
+ * still resolve: `import R, { a, b as c } from "dep"` becomes
+ * `import R, { __cjsModule as __rc_cjs_0__ } from "dep";const a = __rc_cjs_0__["a"], ...;`.
+ * `isCjs` gets each static import's specifier. Line breaks and an inline source map
+ * are kept.
+ */
+export async function interopCjsImports(
+  code: string,
+  isCjs: (specifier: string) => Promise<boolean> | boolean,
+): Promise<string> {
+  await init;
+  const [imports] = parse(code);
+  const edits: CodeEdit[] = [];
+
+  for (const imp of imports) {
+    if (imp.d !== -1 || imp.n === undefined || !code.startsWith('import', imp.ss)) continue;
+    // the import clause, up to the specifier's opening quote
+    const clause = code.slice(imp.ss, imp.s - 1);
+    const open = clause.indexOf('{');
+    const close = clause.indexOf('}', open);
+    if (open === -1 || close === -1 || !(await isCjs(imp.n))) continue;
+
+    const local = `__rc_cjs_${edits.length / 2}__`;
+    const kept: string[] = [];
+    const bindings: string[] = [];
+    for (const spec of clause.slice(open + 1, close).split(',')) {
+      const m = /^\s*("[^"]*"|'[^']*'|[\w$]+)(?:\s+as\s+([\w$]+))?\s*$/.exec(spec);
+      if (!m) continue;
+      const imported = /^["']/.test(m[1]) ? m[1].slice(1, -1) : m[1];
+      if (imported === 'default') kept.push(spec.trim());
+      else bindings.push(`${m[2] ?? m[1]} = ${local}[${JSON.stringify(imported)}]`);
+    }
+    if (!bindings.length) continue;
+
+    const lineBreaks = '\n'.repeat(clause.slice(open, close).split('\n').length - 1);
+    edits.push({
+      start: imp.ss + open,
+      end: imp.ss + close + 1,
+      text: `{ ${[...kept, `${CJS_MODULE_EXPORT} as ${local}`].join(', ')} }${lineBreaks}`,
+    });
+    const afterSemicolon = code[imp.se] === ';';
+    const at = afterSemicolon ? imp.se + 1 : imp.se;
+    edits.push({
+      start: at,
+      end: at,
+      text: `${afterSemicolon ? '' : ';'}const ${bindings.join(', ')};`,
+    });
+  }
+
+  return applyEdits(code, edits);
+}
+
+export interface HotAccepts {
+  /** `import.meta.hot.accept()` / `accept(cb)` */
+  selfAccepting: boolean;
+  /** Specifiers passed as `accept('./dep', cb)` or `accept(['./a', './b'], cb)` */
+  acceptedDeps: string[];
+  /** `import.meta.hot.decline()`: updates reaching this module reload the page */
+  declined: boolean;
+  /** The module uses `import.meta.hot` at all */
+  usesHot: boolean;
+}
+
+const HOT_ACCEPT_RE = /^\.hot\??\.accept\s*\(\s*/;
+const HOT_DECLINE_RE = /^\.hot\??\.decline\s*\(/;
+const STRING_LITERAL_RE = /^\s*(['"])((?:\\.|(?!\1)[^\\])*)\1\s*,?/;
+
+/**
+ * Find real `import.meta.hot.accept(...)` / `decline()` calls (not look-alikes in
+ * strings or comments).
+ */
+export async function scanHotAccepts(code: string): Promise<HotAccepts> {
+  await init;
+  const [imports] = parse(code);
+  const result: HotAccepts = {
+    selfAccepting: false,
+    acceptedDeps: [],
+    declined: false,
+    usesHot: false,
+  };
+
+  for (const imp of imports) {
+    if (imp.d !== -2 || !/^\.hot(?![\w$])/.test(code.slice(imp.e))) continue;
+    result.usesHot = true;
+    if (HOT_DECLINE_RE.test(code.slice(imp.e))) result.declined = true;
+    const match = HOT_ACCEPT_RE.exec(code.slice(imp.e));
+    if (!match) continue;
+    let rest = code.slice(imp.e + match[0].length);
+
+    const single = STRING_LITERAL_RE.exec(rest);
+    if (single) {
+      result.acceptedDeps.push(single[2]);
+    } else if (rest.startsWith('[')) {
+      rest = rest.slice(1);
+      let dep: RegExpExecArray | null;
+      while ((dep = STRING_LITERAL_RE.exec(rest))) {
+        result.acceptedDeps.push(dep[2]);
+        rest = rest.slice(dep[0].length);
+      }
+    } else {
+      result.selfAccepting = true;
+    }
+  }
+  return result;
+}
+
+export interface ModuleExport {
+  /** Exported name (`default` for default exports) */
+  name: string;
+  /** Local binding, when the export has one */
+  local?: string;
+}
+
+/**
+ * List a module's exports (plain JS input).
+ */
+export async function scanExports(code: string): Promise<ModuleExport[]> {
+  await init;
+  const [, exports] = parse(code);
+  return exports.map((exp) => {
+    // `export default App;` has no binding in the lexer output; recover the identifier
+    const local =
+      exp.ln ??
+      (exp.n === 'default'
+        ? /^\s+([A-Za-z_$][\w$]*)\s*(?:;|\n|$)/.exec(code.slice(exp.e))?.[1]
+        : undefined);
+    return { name: exp.n, local };
+  });
+}
@@ -0,0 +1,191 @@
+/**
+ * postcssConfig.ts — load the app's PostCSS setup
+ *
+ * Honours `css.postcss` from react-client.config first, then postcss.config.*,
+ * .postcssrc* or the package.json `postcss` field. Plugins are resolved from
+ * the app. The loaded config is cached until its file changes.
+ */
+
+import path from 'path';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { PostcssOptions } from '../types/config';
+
+/** A ready-to-run PostCSS setup: plugin instances plus process options */
+export interface LoadedPostcssConfig {
+  plugins: unknown[];
+  options: Record<string, unknown>;
+  /** The config file it came from, if any */
+  file: string | null;
+}
+
+const CONFIG_FILES = [
+  'postcss.config.js',
+  'postcss.config.cjs',
+  'postcss.config.mjs',
+  'postcss.config.json',
+  '.postcssrc',
+  '.postcssrc.json',
+  '.postcssrc.js',
+  '.postcssrc.cjs',
+  '.postcssrc.mjs',
+];
+const TAILWIND_CONFIGS = ['tailwind.config.js', 'tailwind.config.cjs', 'tailwind.config.mjs'];
+
+interface CacheEntry {
+  /** Config file + mtime, or the inline config object itself */
+  key: string | PostcssOptions;
+  /** `--mode` the config was loaded for: function configs receive it as `env` */
+  mode: string;
+  config: Promise<LoadedPostcssConfig | null>;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+async function findConfigFile(appRoot: string): Promise<string | null> {
+  for (const name of CONFIG_FILES) {
+    const file = path.join(appRoot, name);
+    if (await fs.pathExists(file)) return file;
+  }
+  return null;
+}
+
+/** An ES module namespace, as returned by import() or require() of ESM */
+function isModuleNamespace(mod: unknown): mod is { default?: unknown } {
+  return (
+    !!mod && typeof mod === 'object' && Object.prototype.toString.call(mod) === '[object Module]'
+  );
+}
+
+async function importEsm(file: string, mtimeMs: number): Promise<unknown> {
+  const mod = await import(`${pathToFileURL(file).href}?t=${mtimeMs}`);
+  // `export const plugins = ...` without a default export
+  return mod.default ?? mod;
+}
+
+async function importConfigFile(file: string, mtimeMs: number): Promise<unknown> {
+  const name = path.basename(file);
+  if (name.endsWith('.json') || name === '.postcssrc') return fs.readJson(file);
+  if (file.endsWith('.mjs')) return importEsm(file, mtimeMs);
+  // .js/.cjs: CommonJS first (the common case), ESM when the package is "type": "module"
+  const appRequire = createRequire(file);
+  let mod: unknown;
+  try {
+    delete appRequire.cache[file];
+    mod = appRequire(file);
+  } catch (err) {
+    if ((err as { code?: string }).code !== 'ERR_REQUIRE_ESM') throw err;
+    return importEsm(file, mtimeMs);
+  }
+  // Node 20.19+/22.12+ require() ESM and return its namespace, cached for good:
+  // import it instead so the default export is used and edits are picked up
+  return isModuleNamespace(mod) ? importEsm(file, mtimeMs) : mod;
+}
+
+/**
+ * Turn `plugins` in either PostCSS config form into plugin instances:
+ * an array (`[tailwindcss(), ...]`) or an object (`{ tailwindcss: {}, autoprefixer: false }`).
+ */
+function resolvePlugins(plugins: unknown, appRoot: string): unknown[] {
+  const appRequire = createRequire(path.join(appRoot, 'package.json'));
+  if (Array.isArray(plugins)) return plugins.filter(Boolean);
+  if (!plugins || typeof plugins !== 'object') return [];
+
+  const resolved: unknown[] = [];
+  for (const [name, options] of Object.entries(plugins)) {
+    if (options === false) continue;
+    const plugin = appRequire(name);
+    const factory = (plugin && plugin.default) || plugin;
+    const pluginOptions = options === true || !options ? undefined : options;
+    resolved.push(typeof factory === 'function' ? factory(pluginOptions) : factory);
+  }
+  return resolved;
+}
+
+function normalize(
+  raw: unknown,
+  appRoot: string,
+  mode: string,
+  file: string | null,
+): LoadedPostcssConfig | null {
+  let config = raw as PostcssOptions | ((ctx: { env: string }) => PostcssOptions) | null;
+  if (typeof config === 'function') config = config({ env: mode });
+  if (!config || typeof config !== 'object') return null;
+
+  const { plugins, ...options } = config;
+  // parser/syntax/stringifier may be given as package names
+  const appRequire = createRequire(path.join(appRoot, 'package.json'));
+  for (const key of ['parser', 'syntax', 'stringifier']) {
+    if (typeof options[key] === 'string') options[key] = appRequire(options[key] as string);
+  }
+  return { plugins: resolvePlugins(plugins, appRoot), options, file };
+}
+
+async function load(
+  appRoot: string,
+  mode: string,
+  inline?: PostcssOptions,
+): Promise<LoadedPostcssConfig | null> {
+  if (inline) return normalize(inline, appRoot, mode, null);
+
+  const file = await findConfigFile(appRoot);
+  if (file) {
+    const { mtimeMs } = await fs.stat(file);
+    const config = normalize(await importConfigFile(file, mtimeMs), appRoot, mode, file);
+    if (!config?.plugins.length) {
+      console.warn(
+        chalk.yellow(`⚠️ ${path.relative(appRoot, file)} does not configure any PostCSS plugins.`),
+      );
+    }
+    return config;
+  }
+
+  const pkgPath = path.join(appRoot, 'package.json');
+  if (await fs.pathExists(pkgPath)) {
+    const pkg = await fs.readJson(pkgPath).catch(() => null);
+    if (pkg?.postcss) return normalize(pkg.postcss, appRoot, mode, pkgPath);
+  }
+
+  // Tailwind config without a PostCSS config: the classic Tailwind + Autoprefixer setup
+  for (const name of TAILWIND_CONFIGS) {
+    if (await fs.pathExists(path.join(appRoot, name))) {
+      const appRequire = createRequire(path.join(appRoot, 'package.json'));
+      const plugins: unknown[] = [appRequire('tailwindcss')];
+      try {
+        plugins.push(appRequire('autoprefixer'));
+      } catch {
+        // autoprefixer is optional
+      }
+      return { plugins, options: {}, file: path.join(appRoot, name) };
+    }
+  }
+  return null;
+}
+
+/**
+ * The app's PostCSS config, or null when it has none. Function configs are called
+ * with `{ env: mode }`, the command's `--mode`. Cached per app root and reloaded
+ * when the config file (or the inline config) or the mode changes.
+ */
+export async function loadPostcssConfig(
+  appRoot: string,
+  mode: string,
+  inline?: PostcssOptions,
+): Promise<LoadedPostcssConfig | null> {
+  let key: CacheEntry['key'] = inline ?? '';
+  if (!inline) {
+    const file = await findConfigFile(appRoot);
+    key = file ? `${file}:${(await fs.stat(file)).mtimeMs}` : '';
+  }
+
+  const cached = cache.get(appRoot);
+  if (cached && cached.key === key && cached.mode === mode) return cached.config;
+
+  const config = load(appRoot, mode, inline);
+  cache.set(appRoot, { key, mode, config });
+  // failed loads are retried on the next call
+  config.catch(() => cache.delete(appRoot));
+  return config;
+}
@@ -0,0 +1,255 @@
+/**
+ * sourceMap.ts — read source maps and map generated positions back to sources
+ *
+ * Used by the dev server's /@source-map endpoint: app modules carry inline maps
+ * (esbuild `sourcemap: 'inline'`), prebundled deps have `.map` files next to them.
+ * applyEdits keeps an inline map right through the dev server's rewrites of the
+ * esbuild output.
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+import { fileURLToPath } from 'url';
+
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  sourceRoot?: string;
+  sourcesContent?: (string | null)[];
+  names?: string[];
+  mappings: string;
+}
+
+/**
+ * A decoded map: per generated line, segments `[column, source, line, column, name?]`
+ * (0-based), or just `[column]` for unmapped text
+ */
+export interface DecodedSourceMap {
+  /** Absolute paths (or the raw entry when it is not a file path) */
+  sources: string[];
+  sourcesContent: (string | null)[];
+  lines: number[][][];
+}
+
+export interface OriginalPosition {
+  source: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  /** The source's text as embedded in the map, if it was */
+  content: string | null;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64].map((c, i) => [c, i]));
+
+const MAP_URL_RE = /\/\/[#@] sourceMappingURL=(\S+)\s*$/;
+
+/** A replacement of `code.slice(start, end)` with `text` */
+export interface CodeEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Base64 VLQ `mappings` -> segments per generated line, with the relative fields summed up */
+function decodeMappings(mappings: string): number[][][] {
+  const lines: number[][][] = [];
+  // source index, original line and column and name index carry over between generated lines
+  const state = [0, 0, 0, 0, 0];
+  for (const line of mappings.split(';')) {
+    const segments: number[][] = [];
+    let column = 0;
+    for (const group of line.split(',')) {
+      if (!group) continue;
+      const fields: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of group) {
+        const digit = BASE64_VALUES.get(char) ?? 0;
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+          continue;
+        }
+        fields.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = 0;
+        shift = 0;
+      }
+      column += fields[0];
+      if (fields.length < 4) {
+        segments.push([column]);
+        continue;
+      }
+      for (let i = 1; i < fields.length; i++) state[i] += fields[i];
+      segments.push([column, ...state.slice(1, fields.length)]);
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+function encodeVlq(value: number): string {
+  let rest = value < 0 ? (-value << 1) | 1 : value << 1;
+  let out = '';
+  do {
+    const digit = rest & 31;
+    rest >>>= 5;
+    out += BASE64[rest ? digit | 32 : digit];
+  } while (rest);
+  return out;
+}
+
+/** Segments per generated line -> base64 VLQ `mappings` (the reverse of decodeMappings) */
+function encodeMappings(lines: number[][][]): string {
+  const state = [0, 0, 0, 0, 0];
+  return lines
+    .map((segments) => {
+      state[0] = 0;
+      return segments
+        .map((segment) =>
+          segment
+            .map((value, i) => {
+              const delta = value - state[i];
+              state[i] = value;
+              return encodeVlq(delta);
+            })
+            .join(''),
+        )
+        .join(',');
+    })
+    .join(';')
+    .replace(/;+$/, '');
+}
+
+function lineStarts(code: string): number[] {
+  const starts = [0];
+  for (let i = code.indexOf('\n'); i !== -1; i = code.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+}
+
+/**
+ * Apply non-overlapping edits to generated `code`. When it carries an inline source
+ * map, the map is updated to match: mapped positions move with the text around them,
+ * and ones inside replaced text map from the start of its replacement.
+ */
+export function applyEdits(code: string, edits: CodeEdit[]): string {
+  const sorted = [...edits].sort((a, b) => a.start - b.start);
+  let out = '';
+  let last = 0;
+  for (const edit of sorted) {
+    out += code.slice(last, edit.start) + edit.text;
+    last = edit.end;
+  }
+  out += code.slice(last);
+
+  const mapUrl = MAP_URL_RE.exec(code);
+  if (!sorted.length || !mapUrl?.[1].startsWith('data:application/json;base64,')) return out;
+  let raw: RawSourceMap;
+  try {
+    raw = JSON.parse(Buffer.from(mapUrl[1].split(',')[1], 'base64').toString('utf8'));
+  } catch {
+    return out;
+  }
+
+  const newOffset = (offset: number) => {
+    let delta = 0;
+    for (const edit of sorted) {
+      if (edit.end <= offset) delta += edit.text.length - (edit.end - edit.start);
+      else if (edit.start <= offset) return edit.start + delta;
+      else break;
+    }
+    return offset + delta;
+  };
+  const oldStarts = lineStarts(code);
+  const newStarts = lineStarts(out);
+  const lines: number[][][] = newStarts.map(() => []);
+  let line = 0;
+  decodeMappings(raw.mappings).forEach((segments, oldLine) => {
+    for (const [column, ...fields] of segments) {
+      const offset = newOffset(oldStarts[oldLine] + column);
+      // offsets only grow along the map, so the line search can resume where it stopped
+      while (line + 1 < newStarts.length && newStarts[line + 1] <= offset) line++;
+      // several positions inside one replacement end up on the same column
+      if (lines[line].at(-1)?.[0] === offset - newStarts[line]) continue;
+      lines[line].push([offset - newStarts[line], ...fields]);
+    }
+  });
+  raw.mappings = encodeMappings(lines);
+
+  const mapAt = out.lastIndexOf(mapUrl[1]);
+  const data = Buffer.from(JSON.stringify(raw)).toString('base64');
+  return `${out.slice(0, mapAt)}data:application/json;base64,${data}${out.slice(
+    mapAt + mapUrl[1].length,
+  )}`;
+}
+
+/**
+ * Decode a raw map; `sources` are resolved against `mapDir`, the directory the
+ * map's URLs are relative to.
+ */
+export function decodeSourceMap(raw: RawSourceMap, mapDir: string): DecodedSourceMap {
+  const root = raw.sourceRoot ?? '';
+  const sources = raw.sources.map((source) => {
+    const joined = root ? `${root.replace(/\/$/, '')}/${source}` : source;
+    if (joined.startsWith('file://')) return fileURLToPath(joined);
+    // `<stdin>`, `webpack://...` and other non-file entries are kept as they are
+    return /^(<|[a-z][\w+.-]*:\/\/)/i.test(joined) ? joined : path.resolve(mapDir, joined);
+  });
+  return {
+    sources,
+    sourcesContent: raw.sourcesContent ?? [],
+    lines: decodeMappings(raw.mappings),
+  };
+}
+
+/**
+ * Original position of a generated one (1-based line, 1-based column): the
+ * closest segment at or before the column, or null when the line maps nowhere.
+ */
+export function originalPositionFor(
+  map: DecodedSourceMap,
+  line: number,
+  column: number,
+): OriginalPosition | null {
+  const segments = (map.lines[line - 1] ?? []).filter((s) => s.length >= 4);
+  if (!segments.length) return null;
+  let found = segments[0];
+  for (const segment of segments) {
+    if (segment[0] > column - 1) break;
+    found = segment;
+  }
+  const [, source, originalLine, originalColumn] = found;
+  return {
+    source: map.sources[source],
+    line: originalLine + 1,
+    column: originalColumn + 1,
+    content: map.sourcesContent[source] ?? null,
+  };
+}
+
+/**
+ * The source map of generated `code` served from `file`: an inline data URL or a
+ * `.map` file next to it. Null when it has none.
+ */
+export async function extractSourceMap(
+  code: string,
+  file: string,
+): Promise<DecodedSourceMap | null> {
+  const url = MAP_URL_RE.exec(code)?.[1];
+  if (!url) return null;
+  try {
+    if (url.startsWith('data:')) {
+      const [meta, data] = url.slice('data:'.length).split(',', 2);
+      const json = meta.endsWith(';base64')
+        ? Buffer.from(data, 'base64').toString('utf8')
+        : decodeURIComponent(data);
+      return decodeSourceMap(JSON.parse(json), path.dirname(file));
+    }
+    const mapFile = path.resolve(path.dirname(file), decodeURIComponent(url));
+    return decodeSourceMap(await fs.readJson(mapFile), path.dirname(mapFile));
+  } catch {
+    return null;
+  }
+}
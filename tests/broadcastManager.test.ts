@@ -0,0 +1,66 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { BroadcastManager, type BroadcastManagerOptions } from '../src/server/broadcastManager';
+
+describe('BroadcastManager origin check', () => {
+  let server: http.Server;
+  let broadcaster: BroadcastManager;
+  let url: string;
+
+  async function listen(options: BroadcastManagerOptions = {}) {
+    server = http.createServer();
+    broadcaster = new BroadcastManager(server, { heartbeatInterval: 0, ...options });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /** Connect with `origin` (none when undefined): 'open' or the failure message */
+  function connect(origin?: string): Promise<string> {
+    return new Promise((resolve) => {
+      const ws = new WebSocket(url, origin === undefined ? {} : { origin });
+      ws.on('open', () => {
+        ws.close();
+        resolve('open');
+      });
+      ws.on('error', (err) => resolve(err.message));
+    });
+  }
+
+  // close() logs
+  beforeEach(() => jest.spyOn(console, 'log').mockImplementation(() => undefined));
+  afterEach(async () => {
+    broadcaster.close();
+    await new Promise((resolve) => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('accepts pages of the same origin and clients without one', async () => {
+    await listen();
+    expect(await connect(url.replace('ws:', 'http:'))).toBe('open');
+    expect(await connect()).toBe('open');
+  });
+
+  it('refuses other origins with a 403', async () => {
+    await listen();
+    expect(await connect('https://evil.example')).toBe('Unexpected server response: 403');
+    expect(await connect('null')).toBe('Unexpected server response: 403');
+    expect(broadcaster.getClientCount()).toBe(0);
+  });
+
+  it('never passes custom events from refused pages to listeners', async () => {
+    await listen();
+    const listener = jest.fn();
+    broadcaster.on('test:event', listener);
+    const ws = new WebSocket(url, { origin: 'https://evil.example' });
+    ws.on('open', () => ws.send(JSON.stringify({ type: 'custom', event: 'test:event' })));
+    await new Promise((resolve) => ws.on('error', resolve));
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('uses verifyOrigin instead when given', async () => {
+    await listen({ verifyOrigin: (origin) => origin === 'http://app.test:5173' });
+    expect(await connect('http://app.test:5173')).toBe('open');
+    expect(await connect(url.replace('ws:', 'http:'))).toBe('Unexpected server response: 403');
+  });
+});
@@ -0,0 +1,134 @@
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import esbuild from 'esbuild';
+import fs from 'fs-extra';
+import { CJS_MODULE_EXPORT, dependencyProxyCode, detectExports } from '../src/utils/cjsExports';
+import { interopCjsImports } from '../src/utils/moduleLexer';
+
+const cjs = () => true;
+
+describe('interopCjsImports', () => {
+  it('reads named imports off module.exports', async () => {
+    const code = await interopCjsImports('import { debounce, chunk as c } from "dep";', cjs);
+    expect(code).toBe(
+      `import { ${CJS_MODULE_EXPORT} as __rc_cjs_0__ } from "dep";` +
+        'const debounce = __rc_cjs_0__["debounce"], c = __rc_cjs_0__["chunk"];',
+    );
+  });
+
+  it('keeps default imports as they are', async () => {
+    const code = await interopCjsImports(
+      'import React, { default as R2, useState } from "react";\nuseState();',
+      cjs,
+    );
+    expect(code).toBe(
+      `import React, { default as R2, ${CJS_MODULE_EXPORT} as __rc_cjs_0__ } from "react";` +
+        'const useState = __rc_cjs_0__["useState"];\nuseState();',
+    );
+  });
+
+  it('numbers each rewritten import', async () => {
+    const code = await interopCjsImports('import { a } from "x"\nimport { b } from "y"', cjs);
+    expect(code).toContain('const a = __rc_cjs_0__["a"];');
+    expect(code).toContain('const b = __rc_cjs_1__["b"];');
+  });
+
+  it('keeps line breaks of multi-line imports', async () => {
+    const src = 'import {\n  a,\n  b,\n} from "dep";\nthrow a;';
+    const code = await interopCjsImports(src, cjs);
+    expect(code.split('\n')).toHaveLength(src.split('\n').length);
+    expect(code.split('\n').at(-1)).toBe('throw a;');
+  });
+
+  it('leaves ESM deps, namespace, default-only and re-exports alone', async () => {
+    const src = [
+      'import { a } from "esm";',
+      'import * as ns from "dep";',
+      'import d from "dep";',
+      'import "dep";',
+      'export { x } from "dep";',
+      'import("dep");',
+    ].join('\n');
+    expect(await interopCjsImports(src, (id) => id === 'dep')).toBe(src);
+  });
+});
+
+describe('CommonJS named imports', () => {
+  // local CommonJS modules covering the export shapes found in dependencies
+  const fixture = (name: string) => path.join(__dirname, 'fixtures', 'cjs', name);
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rc-cjs-'));
+  });
+  afterAll(async () => {
+    await fs.remove(dir);
+  });
+
+  /** Bundle the dev proxy of a fixture like /@modules/ does and run `app` against it in Node */
+  async function run(dep: string, app: string, interop = true): Promise<string> {
+    const bundle = await esbuild.build({
+      stdin: { contents: await dependencyProxyCode(fixture(dep)), resolveDir: dir },
+      bundle: true,
+      format: 'esm',
+      platform: 'browser',
+      write: false,
+      logLevel: 'silent',
+    });
+    const name = path.basename(dep, '.cjs');
+    await fs.writeFile(path.join(dir, `${name}.mjs`), bundle.outputFiles[0].text);
+    const src = app.replace('DEP', `./${name}.mjs`);
+    const appFile = path.join(dir, `${name}-app.mjs`);
+    await fs.writeFile(appFile, interop ? await interopCjsImports(src, cjs) : src);
+    const result = spawnSync(process.execPath, [appFile], { encoding: 'utf8', timeout: 20000 });
+    return (result.stdout + result.stderr).trim();
+  }
+
+  it('detects exports.x assignments, re-exports and defineProperty getters', async () => {
+    expect(await detectExports(fixture('exports.cjs'))).toEqual({
+      format: 'cjs',
+      names: ['chunk', 'debounce'],
+      hasDefault: true,
+    });
+    expect((await detectExports(fixture('reexport.cjs'))).names).toEqual(['chunk', 'debounce']);
+    expect((await detectExports(fixture('defineProperty.cjs'))).names).toEqual(['greet']);
+  });
+
+  it('cannot detect the exports of a factory-built module.exports', async () => {
+    const { format, names } = await detectExports(fixture('factory.cjs'));
+    expect(format).toBe('cjs');
+    expect(names).toEqual([]);
+  });
+
+  it('exports detected names from the proxy', async () => {
+    const out = await run(
+      'reexport.cjs',
+      'import { chunk } from "DEP"; console.log(JSON.stringify(chunk([1, 2, 3], 2)));',
+      false,
+    );
+    expect(out).toBe('[[1,2],[3]]');
+  });
+
+  it('uses the default export of __esModule modules', async () => {
+    const out = await run(
+      'defineProperty.cjs',
+      'import message, { greet } from "DEP"; console.log(message, "/", greet("you"));',
+    );
+    expect(out).toBe('default export / hello you');
+  });
+
+  it('fails without interop', async () => {
+    const out = await run('factory.cjs', 'import { shape } from "DEP"; console.log(shape);', false);
+    expect(out).toMatch(/does not provide an export named 'shape'/);
+  });
+
+  it('imports names of a factory-built module.exports', async () => {
+    const out = await run(
+      'factory.cjs',
+      'import lib, { string, shape as s } from "DEP";\n' +
+        'console.log(typeof string, typeof s, lib.shape === s);',
+    );
+    expect(out).toBe('function function true');
+  });
+});
@@ -0,0 +1,96 @@
+import { validateConfig, type SchemaNode } from '../src/utils/configSchema';
+
+describe('validateConfig', () => {
+  it('accepts a valid config', () => {
+    const result = validateConfig({
+      server: { port: 3000, open: false, host: true, hmr: { protocol: 'wss' } },
+      build: { outDir: 'out' },
+      resolve: { alias: { '@': './src' } },
+      plugins: [{ name: 'my-plugin', onTransform: () => null }],
+    });
+    expect(result).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('names the exact path of a wrong type', () => {
+    const { errors } = validateConfig({ server: { port: '3000' } });
+    expect(errors).toEqual(['server.port must be a number (got string)']);
+  });
+
+  it('lists every allowed type', () => {
+    const { errors } = validateConfig({ server: { host: 1 } });
+    expect(errors).toEqual(['server.host must be a string or a boolean (got number)']);
+  });
+
+  it('rejects NaN numbers', () => {
+    const { errors } = validateConfig({ server: { port: NaN } });
+    expect(errors).toEqual(['server.port must be a number (got number)']);
+  });
+
+  it('uses record and array item paths', () => {
+    const { errors } = validateConfig({
+      resolve: { alias: { '@': 1 } },
+      plugins: [{ name: 'ok' }, { name: 2 }],
+    });
+    expect(errors).toEqual([
+      'resolve.alias.@ must be a string (got number)',
+      'plugins[1].name must be a string (got number)',
+    ]);
+  });
+
+  it('reports a config that is not an object', () => {
+    expect(validateConfig(null).errors).toEqual(['config must be an object (got null)']);
+  });
+
+  it('warns about unknown keys', () => {
+    const { errors, warnings } = validateConfig({ sever: {}, server: { prot: 1 } });
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual(['Unknown config key "sever"', 'Unknown config key "server.prot"']);
+  });
+
+  it('allows extra keys on open nodes', () => {
+    const { warnings } = validateConfig({
+      plugins: [{ name: 'p', custom: true }],
+      css: { postcss: { plugins: [], map: false } },
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('checks required keys on object values only', () => {
+    expect(validateConfig({ server: { https: { key: 'k' } } }).errors).toEqual([
+      'server.https.cert is required',
+    ]);
+    expect(validateConfig({ server: { https: true } }).errors).toEqual([]);
+    expect(validateConfig({ server: { proxy: { '/api': {} } } }).errors).toEqual([
+      'server.proxy./api.target is required',
+    ]);
+    expect(
+      validateConfig({ server: { proxy: { '/api': 'http://localhost:8080' } } }).errors,
+    ).toEqual([]);
+    expect(validateConfig({ plugins: [{}] }).errors).toEqual(['plugins[0].name is required']);
+  });
+
+  it('checks enum values', () => {
+    expect(validateConfig({ server: { hmr: { protocol: 'http' } } }).errors).toEqual([
+      'server.hmr.protocol must be one of ws, wss (got http)',
+    ]);
+    expect(validateConfig({ css: { modules: { localsConvention: 'camel' } } }).errors).toEqual([
+      'css.modules.localsConvention must be one of asIs, camelCase, camelCaseOnly, dashes, dashesOnly (got camel)',
+    ]);
+  });
+
+  it('skips undefined values', () => {
+    expect(validateConfig({ server: { port: undefined } })).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('validates against a custom schema', () => {
+    const schema: SchemaNode = {
+      type: 'object',
+      required: ['mode'],
+      properties: { mode: { type: 'string', enum: ['a', 'b'] } },
+    };
+    expect(validateConfig({}, schema).errors).toEqual(['mode is required']);
+    expect(validateConfig({ mode: 'c' }, schema).errors).toEqual([
+      'mode must be one of a, b (got c)',
+    ]);
+  });
+});
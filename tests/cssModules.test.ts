@@ -0,0 +1,211 @@
+import path from 'path';
+import { compileCssModule, isCssModule } from '../src/utils/cssModules';
+import type { CssModulesOptions } from '../src/types/config';
+
+const root = path.resolve('/app');
+const file = path.join(root, 'src', 'Button.module.css');
+
+function compile(css: string, options: CssModulesOptions = {}) {
+  return compileCssModule(css, file, root, { generateScopedName: '[local]_s', ...options });
+}
+
+/** Evaluate the generated JS: the default class map, with composed modules stubbed */
+function classMap(js: string, modules: Record<string, Record<string, string>> = {}) {
+  const body = js
+    .replace(
+      /import (\w+) from ("[^"]*");/g,
+      (_, name: string, spec: string) => `const ${name} = __modules[${spec}];`,
+    )
+    .replace('export default __classes;', '')
+    .replace(/export \{[^}]*\};/, '');
+  return new Function('__modules', `${body}\nreturn __classes;`)(modules) as Record<string, string>;
+}
+
+/** Named exports of the generated JS */
+function namedExports(js: string): string[] {
+  const m = /export \{ ([^}]*) \};/.exec(js);
+  return m ? m[1].split(', ').map((entry) => entry.split(' as ')[1]) : [];
+}
+
+describe('isCssModule', () => {
+  it('matches *.module.* stylesheets', () => {
+    expect(isCssModule('/src/a.module.css')).toBe(true);
+    expect(isCssModule('/src/a.module.scss?t=1')).toBe(true);
+    expect(isCssModule('/src/a.css')).toBe(false);
+  });
+});
+
+describe('compileCssModule', () => {
+  it('scopes class names and exports them', () => {
+    const { css, js } = compile('.btn { color: red; }\n.btn:hover, .icon > .btn { color: blue; }');
+    expect(css).toBe('.btn_s { color: red; }\n.btn_s:hover, .icon_s > .btn_s { color: blue; }');
+    expect(classMap(js)).toEqual({ btn: 'btn_s', icon: 'icon_s' });
+    expect(namedExports(js)).toEqual(['btn', 'icon']);
+  });
+
+  it('uses the default [name]_[local]_[hash:5] pattern', () => {
+    const { js } = compileCssModule('.btn {}', file, root);
+    expect(classMap(js).btn).toMatch(/^Button_btn_[0-9a-f]{5}$/);
+  });
+
+  describe(':global and :local', () => {
+    it('leaves :global(...) names unscoped', () => {
+      const { css, js } = compile('.a :global(.b .c) .d {}');
+      expect(css).toBe('.a_s .b .c .d_s {}');
+      expect(classMap(js)).toEqual({ a: 'a_s', d: 'd_s' });
+    });
+
+    it('switches the rest of the selector with bare :global / :local', () => {
+      const { css } = compile(':global .a .b, .c {} :global .d :local .e {}');
+      expect(css).toBe('.a .b, .c_s {} .d .e_s {}');
+    });
+
+    it('scopes :local(...) inside a global selector', () => {
+      const { css } = compile(':global .a :local(.b) .c {}');
+      expect(css).toBe('.a .b_s .c {}');
+    });
+  });
+
+  describe('composes', () => {
+    it('inlines local classes, recursively', () => {
+      const { css, js } = compile(
+        '.base { color: red; }\n.mid { composes: base; }\n.btn { composes: mid; margin: 0; }',
+      );
+      expect(css).not.toContain('composes');
+      expect(css).toContain('.btn_s { margin: 0; }');
+      expect(classMap(js)).toEqual({
+        base: 'base_s',
+        mid: 'mid_s base_s',
+        btn: 'btn_s mid_s base_s',
+      });
+    });
+
+    it('composes classes declared later and ignores cycles', () => {
+      const { js } = compile('.a { composes: b; }\n.b { composes: a; }');
+      expect(classMap(js)).toEqual({ a: 'a_s b_s', b: 'b_s a_s' });
+    });
+
+    it('imports classes composed from another file', () => {
+      const { js } = compile(".btn { composes: shared other from './shared.module.css'; }");
+      expect(js).toContain('import __c0 from "./shared.module.css";');
+      const shared = { shared: 'shared_x', other: 'other_x' };
+      expect(classMap(js, { './shared.module.css': shared })).toEqual({
+        btn: 'btn_s shared_x other_x',
+      });
+    });
+
+    it('adds global classes as they are', () => {
+      const { js } = compile('.btn { composes: reset clearfix from global; }');
+      expect(classMap(js)).toEqual({ btn: 'btn_s reset clearfix' });
+    });
+
+    it('applies to every class of the rule', () => {
+      const { js } = compile('.base {}\n.a, .b { composes: base; }');
+      expect(classMap(js)).toMatchObject({ a: 'a_s base_s', b: 'b_s base_s' });
+    });
+  });
+
+  describe('@keyframes', () => {
+    it('scopes keyframes and the animations using them, in any order', () => {
+      const { css, js } = compile(
+        '.spin { animation: rotate 1s linear infinite; }\n' +
+          '@keyframes rotate { from { opacity: 0; } }\n' +
+          '.fade { animation-name: fade; }\n@-webkit-keyframes fade {}',
+      );
+      expect(css).toContain('.spin_s { animation: rotate_s 1s linear infinite; }');
+      expect(css).toContain('@keyframes rotate_s { from { opacity: 0; } }');
+      expect(css).toContain('.fade_s { animation-name: fade_s; }');
+      expect(css).toContain('@-webkit-keyframes fade_s {}');
+      expect(classMap(js)).toMatchObject({ rotate: 'rotate_s', fade: 'fade_s' });
+    });
+
+    it('keeps :global keyframes and unknown animation names', () => {
+      const { css } = compile(
+        '@keyframes :global(pulse) {}\n.a { animation: pulse 1s, external 2s; }',
+      );
+      expect(css).toContain('@keyframes pulse {}');
+      expect(css).toContain('animation: pulse 1s, external 2s;');
+    });
+  });
+
+  describe('selectors and values with dots', () => {
+    it('does not scope dots inside attribute selectors', () => {
+      const { css } = compile('a[href$=".pdf"].link, [data-x=a.b] {}');
+      expect(css).toBe('a[href$=".pdf"].link_s, [data-x=a.b] {}');
+    });
+
+    it('copies strings, urls and comments unchanged', () => {
+      const { css, js } = compile(
+        '/* .not-a-class */\n.a { content: ".b"; background: url(data:image/png;base64,a.b); }',
+      );
+      expect(css).toBe(
+        '/* .not-a-class */\n.a_s { content: ".b"; background: url(data:image/png;base64,a.b); }',
+      );
+      expect(Object.keys(classMap(js))).toEqual(['a']);
+    });
+
+    it('does not treat numbers as class names', () => {
+      const { css } = compile('.a { width: 1.5em; } @media (min-width: 10.5em) { .b {} }');
+      expect(css).toBe('.a_s { width: 1.5em; } @media (min-width: 10.5em) { .b_s {} }');
+    });
+
+    it('handles escaped characters in class names', () => {
+      const { js } = compile('.sm\\:flex {}');
+      expect(classMap(js)).toEqual({ 'sm:flex': 'sm:flex_s' });
+    });
+  });
+
+  describe('localsConvention', () => {
+    const css = '.btn-primary {} .icon_small {}';
+    const keys = (localsConvention?: CssModulesOptions['localsConvention']) =>
+      classMap(compile(css, { localsConvention }).js);
+
+    it('asIs (default) keeps names as written', () => {
+      expect(keys()).toEqual({ 'btn-primary': 'btn-primary_s', icon_small: 'icon_small_s' });
+      expect(keys('asIs')).toEqual(keys());
+    });
+
+    it('camelCase adds camelCased keys', () => {
+      expect(keys('camelCase')).toEqual({
+        'btn-primary': 'btn-primary_s',
+        btnPrimary: 'btn-primary_s',
+        icon_small: 'icon_small_s',
+        iconSmall: 'icon_small_s',
+      });
+    });
+
+    it('camelCaseOnly keeps only camelCased keys', () => {
+      expect(keys('camelCaseOnly')).toEqual({
+        btnPrimary: 'btn-primary_s',
+        iconSmall: 'icon_small_s',
+      });
+    });
+
+    it('dashes converts only dashes, keeping the original', () => {
+      expect(keys('dashes')).toEqual({
+        'btn-primary': 'btn-primary_s',
+        btnPrimary: 'btn-primary_s',
+        icon_small: 'icon_small_s',
+      });
+    });
+
+    it('dashesOnly keeps only dash-converted keys', () => {
+      expect(keys('dashesOnly')).toEqual({
+        btnPrimary: 'btn-primary_s',
+        icon_small: 'icon_small_s',
+      });
+    });
+
+    it('exports only valid identifiers by name', () => {
+      const { js } = compile(css, { localsConvention: 'camelCase' });
+      expect(namedExports(js)).toEqual(['btnPrimary', 'icon_small', 'iconSmall']);
+    });
+  });
+
+  it('accepts a generateScopedName function', () => {
+    const { js } = compileCssModule('.a {}', file, root, {
+      generateScopedName: (local, filename) => `${path.basename(filename)}-${local}`,
+    });
+    expect(classMap(js)).toEqual({ a: 'Button.module.css-a' });
+  });
+});
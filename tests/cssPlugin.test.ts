@@ -0,0 +1,67 @@
+import os from 'os';
+import path from 'path';
+import esbuild from 'esbuild';
+import fs from 'fs-extra';
+import { createCssPlugin, processCss } from '../src/utils/cssPlugin';
+import { toEsbuildPlugin } from '../src/utils/esbuildPlugin';
+import { createErrorPayload } from '../src/server/errorPayload';
+
+// an app with PostCSS installed; the inline config keeps its own postcss.config out of it
+const appRoot = path.resolve('templates/react-tailwind-ts');
+const noop = { postcssPlugin: 'noop' };
+const css = { postcss: { plugins: [noop] } };
+const broken = '.a { color: red; }\n.b { color: blue\n';
+
+describe('CSS errors', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rc-css-'));
+  });
+  afterAll(async () => {
+    await fs.remove(dir);
+  });
+
+  it('rejects with the PostCSS error, located for the overlay', async () => {
+    const file = path.join(dir, 'broken.css');
+    const error = await processCss(broken, file, appRoot, 'development', css.postcss).catch(
+      (err) => err,
+    );
+    expect(error).toMatchObject({ name: 'CssSyntaxError', reason: 'Unclosed block' });
+
+    const payload = await createErrorPayload(error, { file, source: broken, plugin: 'css' });
+    expect(payload).toMatchObject({
+      message: 'Unclosed block',
+      file,
+      line: 2,
+      column: 1,
+      plugin: 'css',
+    });
+    expect(payload.frame).toContain('> 2 | .b { color: blue');
+  });
+
+  it('fails the build at the error location', async () => {
+    const file = path.join(dir, 'main.css');
+    await fs.writeFile(file, broken);
+    const plugin = toEsbuildPlugin(
+      [createCssPlugin(appRoot, { hmr: false, mode: 'production', css })],
+      appRoot,
+    );
+    const error = await esbuild
+      .build({
+        entryPoints: [file],
+        bundle: true,
+        write: false,
+        logLevel: 'silent',
+        plugins: [plugin],
+      })
+      .catch((err) => err);
+    expect(error.errors).toHaveLength(1);
+    expect(error.errors[0]).toMatchObject({
+      text: '[css] Unclosed block',
+      location: { line: 2, column: 0, lineText: '.b { color: blue' },
+    });
+    // esbuild reports it relative to the working directory
+    expect(path.resolve(error.errors[0].location.file)).toBe(file);
+  });
+});
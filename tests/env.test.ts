@@ -0,0 +1,161 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { envDefines, loadEnv, parseEnv } from '../src/utils/env';
+
+describe('parseEnv', () => {
+  it('parses plain, exported and commented lines', () => {
+    const parsed = parseEnv(
+      ['# comment', 'A=1', 'export B=two', 'C = spaced  # trailing', 'EMPTY=', ''].join('\n'),
+    );
+    expect(parsed).toEqual({
+      A: { value: '1', literal: false },
+      B: { value: 'two', literal: false },
+      C: { value: 'spaced', literal: false },
+      EMPTY: { value: '', literal: false },
+    });
+  });
+
+  it('unquotes values and keeps # inside quotes', () => {
+    const parsed = parseEnv(
+      ['D="double # not a comment"', "S='single $X'", 'T=`back tick`'].join('\n'),
+    );
+    expect(parsed.D).toEqual({ value: 'double # not a comment', literal: false });
+    expect(parsed.S).toEqual({ value: 'single $X', literal: true });
+    expect(parsed.T).toEqual({ value: 'back tick', literal: false });
+  });
+
+  it('expands \\n escapes in double quotes only', () => {
+    const parsed = parseEnv(['D="a\\nb"', "S='a\\nb'"].join('\n'));
+    expect(parsed.D.value).toBe('a\nb');
+    expect(parsed.S.value).toBe('a\\nb');
+  });
+
+  it('reads multiline quoted values', () => {
+    const parsed = parseEnv('KEY="-----BEGIN-----\nline\n-----END-----"\nNEXT=1\r\n');
+    expect(parsed.KEY.value).toBe('-----BEGIN-----\nline\n-----END-----');
+    expect(parsed.NEXT.value).toBe('1');
+  });
+});
+
+describe('loadEnv', () => {
+  let dir: string;
+  const touched = new Set<string>();
+  const write = (files: Record<string, string>) =>
+    Promise.all(
+      Object.entries(files).map(([name, src]) => fs.writeFile(path.join(dir, name), src)),
+    );
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rc-env-'));
+  });
+  afterEach(async () => {
+    for (const key of touched) delete process.env[key];
+    touched.clear();
+    await fs.remove(dir);
+  });
+
+  it('exposes only prefixed variables', async () => {
+    await write({ '.env': 'RC_A=1\nPUBLIC_B=2\nVITE_C=3\nSECRET=4\n' });
+    expect(await loadEnv('development', dir)).toEqual({ RC_A: '1', PUBLIC_B: '2', VITE_C: '3' });
+  });
+
+  it('applies .env, .env.local, .env.[mode], .env.[mode].local in priority order', async () => {
+    await write({
+      '.env': 'RC_A=env\nRC_B=env\nRC_C=env\nRC_D=env\n',
+      '.env.local': 'RC_B=local\nRC_C=local\nRC_D=local\n',
+      '.env.production': 'RC_C=mode\nRC_D=mode\n',
+      '.env.production.local': 'RC_D=mode-local\n',
+      '.env.development': 'RC_A=other-mode\n',
+    });
+    expect(await loadEnv('production', dir)).toEqual({
+      RC_A: 'env',
+      RC_B: 'local',
+      RC_C: 'mode',
+      RC_D: 'mode-local',
+    });
+  });
+
+  it('lets process.env win over every file', async () => {
+    await write({ '.env': 'RC_A=file\nRC_B=${RC_A}\n', '.env.test.local': 'RC_A=local\n' });
+    touched.add('RC_A');
+    process.env.RC_A = 'shell';
+    expect(await loadEnv('test', dir)).toMatchObject({ RC_A: 'shell', RC_B: 'shell' });
+  });
+
+  it('expands $VAR, ${VAR} and ${VAR:-default}', async () => {
+    await write({
+      '.env': [
+        'HOST=localhost',
+        'PORT=8080',
+        'RC_URL=http://${HOST}:$PORT/api',
+        'RC_FALLBACK=${MISSING:-fallback}',
+        'RC_SET=${PORT:-9000}',
+        'RC_EMPTY=${MISSING}',
+        'RC_CHAIN=${RC_URL}/v1',
+      ].join('\n'),
+    });
+    expect(await loadEnv('development', dir)).toEqual({
+      RC_URL: 'http://localhost:8080/api',
+      RC_FALLBACK: 'fallback',
+      RC_SET: '8080',
+      RC_EMPTY: '',
+      RC_CHAIN: 'http://localhost:8080/api/v1',
+    });
+  });
+
+  it('expands against later files', async () => {
+    await write({ '.env': 'RC_URL=${RC_HOST}/x\nRC_HOST=a\n', '.env.local': 'RC_HOST=b\n' });
+    expect(await loadEnv('development', dir)).toEqual({ RC_URL: 'b/x', RC_HOST: 'b' });
+  });
+
+  it('keeps escaped dollars and single-quoted values literal', async () => {
+    await write({
+      '.env': ['PRICE=5', 'RC_ESCAPED=\\$PRICE and \\${PRICE}', "RC_LITERAL='$PRICE'"].join('\n'),
+    });
+    expect(await loadEnv('development', dir)).toEqual({
+      RC_ESCAPED: '$PRICE and ${PRICE}',
+      RC_LITERAL: '$PRICE',
+    });
+  });
+
+  it('stops expanding at a reference cycle', async () => {
+    // the variable seen twice keeps its raw value
+    await write({ '.env': 'RC_A=${RC_B}a\nRC_B=${RC_A}b\n' });
+    expect(await loadEnv('development', dir)).toEqual({ RC_A: '${RC_B}aba', RC_B: '${RC_A}bab' });
+  });
+});
+
+describe('envDefines', () => {
+  it('defines process.env and import.meta.env entries', () => {
+    const defines = envDefines({ RC_A: '1' }, { mode: 'development', dev: true });
+    expect(defines['process.env.NODE_ENV']).toBe('"development"');
+    expect(defines['process.env.RC_A']).toBe('"1"');
+    expect(defines['import.meta.env.PROD']).toBe('false');
+    expect(defines['import.meta.env.BASE_URL']).toBe('"/"');
+    expect(JSON.parse(defines['import.meta.env'])).toEqual({
+      RC_A: '1',
+      MODE: 'development',
+      DEV: true,
+      PROD: false,
+      BASE_URL: '/',
+    });
+  });
+
+  it('skips and warns about names that are not JS identifiers', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      const defines = envDefines(
+        { RC_OK: '1', 'RC_API-URL': 'x', 'RC_A.B': 'y' },
+        { mode: 'production', dev: false },
+      );
+      expect(defines['process.env.RC_OK']).toBe('"1"');
+      expect(Object.keys(defines).filter((key) => key.includes('RC_A'))).toEqual([]);
+      expect(JSON.parse(defines['import.meta.env'])).not.toHaveProperty(['RC_API-URL']);
+      expect(warn).toHaveBeenCalledTimes(2);
+      expect(warn.mock.calls[0][0]).toContain('RC_API-URL');
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,12 @@
+// TypeScript / Babel output: `Object.defineProperty` getters and an __esModule default
+Object.defineProperty(exports, '__esModule', { value: true });
+function greet(name) {
+  return 'hello ' + name;
+}
+Object.defineProperty(exports, 'greet', {
+  enumerable: true,
+  get: function () {
+    return greet;
+  },
+});
+exports.default = 'default export';
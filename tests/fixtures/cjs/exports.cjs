@@ -0,0 +1,9 @@
+// `exports.x =` assignments
+exports.chunk = function chunk(list, size) {
+  const out = [];
+  for (let i = 0; i < list.length; i += size) out.push(list.slice(i, i + size));
+  return out;
+};
+exports.debounce = function debounce(fn) {
+  return fn;
+};
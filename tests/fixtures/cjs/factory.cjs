@@ -0,0 +1,10 @@
+// UMD build: `module.exports = factory()` hides every name from static detection
+(function (root, factory) {
+  if (typeof module === 'object' && module.exports) module.exports = factory();
+  else root.lib = factory();
+})(this, function () {
+  return {
+    string: function string() {},
+    shape: function shape() {},
+  };
+});
@@ -0,0 +1,2 @@
+// `module.exports = require(...)`, like React's production/development switch
+module.exports = require('./exports.cjs');
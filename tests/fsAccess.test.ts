@@ -0,0 +1,49 @@
+import path from 'path';
+import { isInside, isServable } from '../src/server/fsAccess';
+
+const root = path.resolve('/app');
+const at = (relative: string) => path.join(root, relative);
+
+describe('isServable', () => {
+  it('serves app files', () => {
+    expect(isServable(at('src/App.tsx'), root)).toBe(true);
+    expect(isServable(at('public/logo.png'), root)).toBe(true);
+    expect(isServable(at('package.json'), root)).toBe(true);
+  });
+
+  it('refuses dotfiles and everything in dot directories', () => {
+    expect(isServable(at('.env'), root)).toBe(false);
+    expect(isServable(at('.env.production.local'), root)).toBe(false);
+    expect(isServable(at('.npmrc'), root)).toBe(false);
+    expect(isServable(at('.git/config'), root)).toBe(false);
+    expect(isServable(at('.react-client/certs/localhost-cert.json'), root)).toBe(false);
+    expect(isServable(at('src/.secret/data.txt'), root)).toBe(false);
+  });
+
+  it('refuses keys and certificates anywhere', () => {
+    expect(isServable(at('.react-client/certs/localhost-key.pem'), root)).toBe(false);
+    expect(isServable(at('certs/server.key'), root)).toBe(false);
+    expect(isServable(at('src/ca.CRT'), root)).toBe(false);
+    expect(isServable(at('public/client.p12'), root)).toBe(false);
+  });
+
+  it('refuses files outside the directory', () => {
+    expect(isServable(path.resolve('/etc/passwd'), root)).toBe(false);
+    expect(isServable(at('../other/index.js'), root)).toBe(false);
+    expect(isServable(root, root)).toBe(false);
+  });
+
+  it('checks the path below the directory only', () => {
+    const dotRoot = path.resolve('/home/me/.projects/app');
+    expect(isServable(path.join(dotRoot, 'src/App.tsx'), dotRoot)).toBe(true);
+  });
+});
+
+describe('isInside', () => {
+  it('matches the directory and its descendants', () => {
+    expect(isInside(at('src/a/b.ts'), at('src'))).toBe(true);
+    expect(isInside(at('src'), at('src'))).toBe(true);
+    expect(isInside(at('src-other/a.ts'), at('src'))).toBe(false);
+    expect(isInside(at('..file'), root)).toBe(true);
+  });
+});
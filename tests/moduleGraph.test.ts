@@ -0,0 +1,177 @@
+import path from 'path';
+import { ModuleGraph, type ModuleNode } from '../src/server/moduleGraph';
+
+const root = path.resolve('/app');
+const file = (name: string) => path.join(root, 'src', name);
+
+type Info = Partial<{ selfAccepting: boolean; declined: boolean; acceptedDeps: string[] }>;
+
+/** Build a graph from `importer -> [imports]` edges plus per-module HMR info */
+function createGraph(edges: Record<string, string[]>, info: Record<string, Info> = {}) {
+  const graph = new ModuleGraph(root);
+  const names = new Set([...Object.keys(edges), ...Object.values(edges).flat()]);
+  for (const name of names) {
+    const node = graph.ensure(file(name));
+    graph.updateModuleInfo(node, new Set((edges[name] ?? []).map(file)), {
+      isSelfAccepting: info[name]?.selfAccepting ?? false,
+      isDeclined: info[name]?.declined,
+      acceptedDeps: new Set((info[name]?.acceptedDeps ?? []).map((dep) => `/src/${dep}`)),
+      unresolvedImports: new Set(),
+    });
+  }
+  const get = (name: string) => graph.getByFile(file(name)) as ModuleNode;
+  const update = (name: string) =>
+    graph
+      .propagateUpdate(get(name), 42)
+      ?.map(({ boundary, acceptedVia }) => [boundary.url, acceptedVia.url]) ?? null;
+  return { graph, get, update };
+}
+
+describe('ModuleGraph', () => {
+  it('tracks importers and URLs', () => {
+    const { get } = createGraph({ 'main.tsx': ['App.tsx'], 'App.tsx': ['util.ts'] });
+    expect(get('App.tsx').url).toBe('/src/App.tsx');
+    expect([...get('util.ts').importers].map((n) => n.url)).toEqual(['/src/App.tsx']);
+  });
+
+  it('returns pruned modules when imports go away', () => {
+    const { graph, get } = createGraph({ 'App.tsx': ['a.ts', 'b.ts'], 'main.tsx': ['b.ts'] });
+    const pruned = graph.updateModuleInfo(get('App.tsx'), new Set(), {
+      isSelfAccepting: false,
+      acceptedDeps: new Set(),
+      unresolvedImports: new Set(),
+    });
+    expect(pruned.map((n) => n.url)).toEqual(['/src/a.ts']);
+  });
+
+  describe('propagateUpdate', () => {
+    it('stops at a self-accepting module', () => {
+      const { update, get } = createGraph(
+        { 'main.tsx': ['App.tsx'], 'App.tsx': [] },
+        { 'App.tsx': { selfAccepting: true } },
+      );
+      expect(update('App.tsx')).toEqual([['/src/App.tsx', '/src/App.tsx']]);
+      expect(get('App.tsx').lastHMRTimestamp).toBe(42);
+      expect(get('main.tsx').lastHMRTimestamp).toBe(0);
+    });
+
+    it('walks up to the nearest boundary, stamping the way', () => {
+      const { update, get } = createGraph(
+        { 'main.tsx': ['App.tsx'], 'App.tsx': ['hooks.ts'], 'hooks.ts': ['util.ts'] },
+        { 'App.tsx': { selfAccepting: true } },
+      );
+      expect(update('util.ts')).toEqual([['/src/App.tsx', '/src/App.tsx']]);
+      expect(get('hooks.ts').lastHMRTimestamp).toBe(42);
+      expect(get('util.ts').lastHMRTimestamp).toBe(42);
+    });
+
+    it('uses an importer that accepts the dep', () => {
+      const { update, get } = createGraph(
+        { 'main.tsx': ['store.ts'], 'store.ts': ['reducer.ts'] },
+        { 'store.ts': { acceptedDeps: ['reducer.ts'] } },
+      );
+      expect(update('reducer.ts')).toEqual([['/src/store.ts', '/src/reducer.ts']]);
+      expect(get('store.ts').lastHMRTimestamp).toBe(42);
+    });
+
+    it('collects a boundary for every importer path', () => {
+      const { update } = createGraph(
+        { 'main.tsx': ['A.tsx', 'B.tsx'], 'A.tsx': ['util.ts'], 'B.tsx': ['util.ts'] },
+        { 'A.tsx': { selfAccepting: true }, 'B.tsx': { selfAccepting: true } },
+      );
+      expect(update('util.ts')).toEqual([
+        ['/src/A.tsx', '/src/A.tsx'],
+        ['/src/B.tsx', '/src/B.tsx'],
+      ]);
+    });
+
+    it('reloads when one importer path reaches the entry', () => {
+      const { update } = createGraph(
+        { 'main.tsx': ['A.tsx', 'util.ts'], 'A.tsx': ['util.ts'] },
+        { 'A.tsx': { selfAccepting: true } },
+      );
+      expect(update('util.ts')).toBeNull();
+    });
+
+    it('reloads when the update reaches the entry', () => {
+      const { update } = createGraph({ 'main.tsx': ['App.tsx'], 'App.tsx': [] });
+      expect(update('App.tsx')).toBeNull();
+      expect(update('main.tsx')).toBeNull();
+    });
+
+    it('reloads at a declining module, even when it accepts itself', () => {
+      const { update } = createGraph(
+        { 'main.tsx': ['App.tsx'], 'App.tsx': ['config.ts'] },
+        { 'App.tsx': { selfAccepting: true }, 'config.ts': { declined: true } },
+      );
+      expect(update('config.ts')).toBeNull();
+
+      const declinedBoundary = createGraph(
+        { 'main.tsx': ['App.tsx'], 'App.tsx': ['util.ts'] },
+        { 'App.tsx': { selfAccepting: true, declined: true } },
+      );
+      expect(declinedBoundary.update('util.ts')).toBeNull();
+    });
+
+    it('reloads when the update runs into an import cycle', () => {
+      // c's only importer b is also imported by c: the walk comes back to c
+      const { update } = createGraph(
+        { 'main.tsx': ['A.tsx'], 'A.tsx': ['b.ts'], 'b.ts': ['c.ts'], 'c.ts': ['b.ts'] },
+        { 'A.tsx': { selfAccepting: true } },
+      );
+      expect(update('c.ts')).toBeNull();
+    });
+
+    it('updates a cycle through a boundary inside it', () => {
+      const { update } = createGraph(
+        { 'main.tsx': ['A.tsx'], 'A.tsx': ['b.ts'], 'b.ts': ['A.tsx'] },
+        { 'A.tsx': { selfAccepting: true } },
+      );
+      expect(update('b.ts')).toEqual([['/src/A.tsx', '/src/A.tsx']]);
+    });
+  });
+
+  describe('findDirWatchers', () => {
+    const watching = (glob: string) => {
+      const graph = new ModuleGraph(root);
+      const css = graph.ensure(file('index.css'));
+      graph.updateModuleInfo(css, new Set(), {
+        isSelfAccepting: true,
+        acceptedDeps: new Set(),
+        unresolvedImports: new Set(),
+        watchedDirs: [{ dir: path.join(root, 'src'), glob }],
+      });
+      return (name: string) => graph.findDirWatchers(path.join(root, 'src', name)).length > 0;
+    };
+
+    it('matches ** across directories, including none', () => {
+      const matches = watching('**/*.tsx');
+      expect(matches('App.tsx')).toBe(true);
+      expect(matches('pages/deep/Home.tsx')).toBe(true);
+      expect(matches('App.ts')).toBe(false);
+    });
+
+    it('keeps * and ? within one path segment', () => {
+      const matches = watching('*.t?');
+      expect(matches('util.ts')).toBe(true);
+      expect(matches('nested/util.ts')).toBe(false);
+      expect(matches('util.tsx')).toBe(false);
+    });
+
+    it('expands {a,b} alternatives and escapes regexp characters', () => {
+      const matches = watching('**/*.{js,ts,tsx}');
+      expect(matches('a.js')).toBe(true);
+      expect(matches('b/c.tsx')).toBe(true);
+      expect(matches('a.css')).toBe(false);
+      const literal = watching('file+(1).txt');
+      expect(literal('file+(1).txt')).toBe(true);
+      expect(literal('fileee(1).txt')).toBe(false);
+    });
+
+    it('ignores files outside the directory', () => {
+      const matches = watching('**/*');
+      expect(matches('App.tsx')).toBe(true);
+      expect(matches('../package.json')).toBe(false);
+    });
+  });
+});
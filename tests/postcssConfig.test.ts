@@ -0,0 +1,27 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { loadPostcssConfig } from '../src/utils/postcssConfig';
+
+describe('loadPostcssConfig', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rc-postcss-'));
+    await fs.writeFile(
+      path.join(dir, 'postcss.config.cjs'),
+      'module.exports = (ctx) => ({ plugins: [{ postcssPlugin: ctx.env }] });',
+    );
+  });
+  afterAll(async () => {
+    await fs.remove(dir);
+  });
+
+  it('calls function configs with the command mode as env', async () => {
+    const production = await loadPostcssConfig(dir, 'production');
+    expect(production?.plugins).toEqual([{ postcssPlugin: 'production' }]);
+
+    const staging = await loadPostcssConfig(dir, 'staging');
+    expect(staging?.plugins).toEqual([{ postcssPlugin: 'staging' }]);
+  });
+});
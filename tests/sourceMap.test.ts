@@ -0,0 +1,241 @@
+import os from 'os';
+import path from 'path';
+import esbuild from 'esbuild';
+import fs from 'fs-extra';
+import {
+  applyEdits,
+  decodeSourceMap,
+  extractSourceMap,
+  originalPositionFor,
+  type DecodedSourceMap,
+} from '../src/utils/sourceMap';
+import { interopCjsImports, rewriteImports } from '../src/utils/moduleLexer';
+
+const file = '/app/src/Counter.tsx';
+
+async function transform(code: string) {
+  const result = await esbuild.transform(code, {
+    loader: 'tsx',
+    sourcemap: 'inline',
+    sourcefile: 'Counter.tsx',
+    jsx: 'automatic',
+  });
+  return result.code;
+}
+
+/** 1-based line/column of the first `text` in `code` */
+function positionOf(code: string, text: string) {
+  const index = code.indexOf(text);
+  if (index === -1) throw new Error(`${text} not found`);
+  const before = code.slice(0, index).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/** Where `text` in the generated code maps to */
+function lookup(map: DecodedSourceMap, code: string, text: string) {
+  const { line, column } = positionOf(code, text);
+  const original = originalPositionFor(map, line, column);
+  return original && { line: original.line, column: original.column };
+}
+
+const inlineMap = (map: object) =>
+  `//# sourceMappingURL=data:application/json;base64,${Buffer.from(JSON.stringify(map)).toString(
+    'base64',
+  )}\n`;
+
+// Hand-encoded: negative source/line/column deltas ("IDFL"), a two-digit value ("oG" = 100),
+// an empty line and an unmapped segment
+const MAPPINGS = 'AAAA,IAAU;;ECGL,IDFL;oG,UACG';
+const MAPPINGS_LINES = [
+  [
+    [0, 0, 0, 0],
+    [4, 0, 0, 10],
+  ],
+  [],
+  [
+    [2, 1, 3, 5],
+    [6, 0, 1, 0],
+  ],
+  [[100], [110, 0, 2, 3]],
+];
+
+describe('decodeSourceMap', () => {
+  const raw = { version: 3, sources: ['a.ts', 'b.ts'], mappings: MAPPINGS };
+
+  it('decodes VLQ mappings into absolute segments', () => {
+    expect(decodeSourceMap(raw, '/app/src').lines).toEqual(MAPPINGS_LINES);
+  });
+
+  it('keeps name indexes', () => {
+    // name +0, then +2
+    const lines = decodeSourceMap(
+      { ...raw, names: ['a', 'b', 'c'], mappings: 'AAAAA,EAAEE' },
+      '/',
+    ).lines;
+    expect(lines).toEqual([
+      [
+        [0, 0, 0, 0, 0],
+        [2, 0, 0, 2, 2],
+      ],
+    ]);
+  });
+
+  it('resolves sources against the map directory and sourceRoot', () => {
+    const { sources } = decodeSourceMap(
+      { ...raw, sources: ['a.ts', '../lib/b.ts', '<stdin>', 'webpack://app/c.ts'] },
+      '/app/src',
+    );
+    expect(sources).toEqual([
+      path.resolve('/app/src/a.ts'),
+      path.resolve('/app/lib/b.ts'),
+      '<stdin>',
+      'webpack://app/c.ts',
+    ]);
+    const rooted = decodeSourceMap({ ...raw, sourceRoot: '../pkg/', sources: ['x.js'] }, '/app');
+    expect(rooted.sources).toEqual([path.resolve('/pkg/x.js')]);
+  });
+});
+
+describe('originalPositionFor', () => {
+  const map = decodeSourceMap(
+    { version: 3, sources: ['a.ts', 'b.ts'], sourcesContent: ['A', null], mappings: MAPPINGS },
+    '/app',
+  );
+
+  it('uses the closest segment at or before the column', () => {
+    const a = path.resolve('/app/a.ts');
+    expect(originalPositionFor(map, 1, 1)).toEqual({ source: a, line: 1, column: 1, content: 'A' });
+    expect(originalPositionFor(map, 1, 4)).toMatchObject({ line: 1, column: 1 });
+    expect(originalPositionFor(map, 1, 5)).toMatchObject({ line: 1, column: 11 });
+    expect(originalPositionFor(map, 1, 80)).toMatchObject({ line: 1, column: 11 });
+  });
+
+  it('follows negative deltas', () => {
+    const b = path.resolve('/app/b.ts');
+    expect(originalPositionFor(map, 3, 3)).toEqual({
+      source: b,
+      line: 4,
+      column: 6,
+      content: null,
+    });
+    expect(originalPositionFor(map, 3, 7)).toMatchObject({ source: path.resolve('/app/a.ts') });
+    expect(originalPositionFor(map, 3, 7)).toMatchObject({ line: 2, column: 1 });
+  });
+
+  it('falls back to the first mapped segment of the line', () => {
+    expect(originalPositionFor(map, 3, 1)).toMatchObject({ line: 4, column: 6 });
+    // [100] maps nowhere
+    expect(originalPositionFor(map, 4, 105)).toMatchObject({ line: 3, column: 4 });
+  });
+
+  it('returns null for lines without mappings', () => {
+    expect(originalPositionFor(map, 2, 1)).toBeNull();
+    expect(originalPositionFor(map, 9, 1)).toBeNull();
+  });
+});
+
+describe('extractSourceMap', () => {
+  const source = [
+    'interface Props {',
+    '  name: string;',
+    '}',
+    '',
+    'export function greet(props: Props): string {',
+    '  const message: string = `Hello, ${props.name}`;',
+    '  return message;',
+    '}',
+  ].join('\n');
+
+  it('reads an esbuild inline map', async () => {
+    const { code } = await esbuild.transform(source, {
+      loader: 'ts',
+      sourcemap: 'inline',
+      sourcefile: 'greet.ts',
+    });
+    const map = (await extractSourceMap(code, '/app/src/greet.ts')) as DecodedSourceMap;
+    expect(map.sources).toEqual([path.resolve('/app/src/greet.ts')]);
+    expect(map.sourcesContent).toEqual([source]);
+    // the interface is gone: generated line 1 is original line 5
+    expect(lookup(map, code, 'greet(props)')).toEqual(positionOf(source, 'greet(props'));
+    expect(lookup(map, code, 'props.name')).toEqual(positionOf(source, 'props.name'));
+    // back to column 3 after `${props.name}`: a negative column delta
+    expect(lookup(map, code, 'return message')).toEqual(positionOf(source, 'return message'));
+    expect(originalPositionFor(map, 5, 1)).toBeNull();
+  });
+
+  it('reads a .map file next to the code', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rc-map-'));
+    try {
+      await fs.outputJson(path.join(dir, 'maps', 'dep.js.map'), {
+        version: 3,
+        sources: ['../src/dep.ts'],
+        mappings: MAPPINGS,
+      });
+      const code = 'x();\n//# sourceMappingURL=maps/dep.js.map';
+      const map = await extractSourceMap(code, path.join(dir, 'dep.js'));
+      expect(map?.sources).toEqual([path.join(dir, 'src', 'dep.ts')]);
+      expect(map?.lines).toEqual(MAPPINGS_LINES);
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  it('returns null without a (readable) map', async () => {
+    expect(await extractSourceMap('x();', '/app/x.js')).toBeNull();
+    expect(await extractSourceMap('//# sourceMappingURL=missing.js.map', '/app/x.js')).toBeNull();
+    expect(
+      await extractSourceMap('//# sourceMappingURL=data:application/json;base64,e30', '/app/x.js'),
+    ).toBeNull();
+  });
+});
+
+describe('applyEdits', () => {
+  it('re-encodes an untouched map as it was', () => {
+    const code = ['a'.repeat(20), '', 'b'.repeat(20), 'c'.repeat(120)].join('\n');
+    const mapped = `${code}\n${inlineMap({ version: 3, sources: ['a.ts'], mappings: MAPPINGS })}`;
+    const edited = applyEdits(mapped, [{ start: code.length, end: code.length, text: ';' }]);
+    const json = Buffer.from(edited.split('base64,')[1], 'base64').toString('utf8');
+    expect(JSON.parse(json).mappings).toBe(MAPPINGS);
+  });
+
+  it('applies edits given in any order', () => {
+    const edits = [
+      { start: 6, end: 11, text: 'there' },
+      { start: 0, end: 0, text: '> ' },
+    ];
+    expect(applyEdits('hello world', edits)).toBe('> hello there');
+  });
+
+  const source = [
+    "import { useState } from 'react';",
+    "import Button from './Button';",
+    '',
+    'export function Counter(): JSX.Element {',
+    '  const [count, setCount] = useState<number>(0);',
+    '  import.meta.hot?.accept();',
+    "  const load = () => import('./Lazy').then((m) => m.default);",
+    '  load();',
+    '  return <Button label={String(count)} onClick={() => setCount(count + 1)} />;',
+    '}',
+  ].join('\n');
+
+  it('keeps the inline map right through the dev server rewrites', async () => {
+    let code = await transform(source);
+    code = await rewriteImports(
+      code,
+      (dep) => (dep === 'react' ? '/@modules/react?v=1a2b3c4d' : `/src/${dep.slice(2)}.tsx?t=1`),
+      '__rc_hot__',
+    );
+    code = await interopCjsImports(code, (url) => url.startsWith('/@modules/'));
+    code = applyEdits(code, [
+      { start: 0, end: 0, text: 'const __rc_hot__ = window.x?.("/src/Counter.tsx");' },
+    ]);
+
+    const map = (await extractSourceMap(code, file)) as DecodedSourceMap;
+    for (const text of ['setCount(count + 1)', 'String(count)', 'm.default', 'load()']) {
+      expect(lookup(map, code, text)).toEqual(positionOf(source, text));
+    }
+    expect(lookup(map, code, 'useState(0)')).toEqual(positionOf(source, 'useState<number>(0)'));
+    expect(lookup(map, code, 'accept()')).toEqual(positionOf(source, 'accept()'));
+  });
+});